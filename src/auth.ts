@@ -0,0 +1,108 @@
+import type * as net from "node:net";
+
+/** What an authentication method's sub-negotiation gets to work with. */
+export interface Socks5AuthContext {
+	/** Control connection to the proxy. Write to it directly; read via `read()`. */
+	socket: net.Socket;
+	/** Read exactly `length` bytes from the proxy. */
+	read(length: number): Promise<Buffer>;
+}
+
+/**
+ * A SOCKS5 authentication method (RFC 1928 §3). `method` is advertised in
+ * the greeting; if the proxy picks it, `authenticate` runs the method's
+ * sub-negotiation and must resolve once the proxy has accepted it (or throw).
+ *
+ * Private methods use ids 0x80–0xFE.
+ *
+ * @example
+ * ```ts
+ * const token: Socks5AuthMethod = {
+ *   method: 0x80,
+ *   async authenticate({ socket, read }) {
+ *     socket.write(Buffer.concat([Buffer.from([0x01, secret.length]), secret]));
+ *     const [, status] = await read(2);
+ *     if (status !== 0x00) throw new Error("Token rejected");
+ *   },
+ * };
+ * ```
+ */
+export interface Socks5AuthMethod {
+	method: number;
+	authenticate(context: Socks5AuthContext): Promise<void>;
+}
+
+/** Method 0x00: no authentication required. */
+export const noAuthentication: Socks5AuthMethod = {
+	method: 0x00,
+	authenticate: async () => {},
+};
+
+/**
+ * Check RFC 1929 field limits: username and password must each be 1–255
+ * bytes, because their lengths are sent as a single octet.
+ */
+export function validateSocks5Credentials(
+	user: string,
+	password: string,
+): void {
+	const uLen = Buffer.byteLength(user);
+	const pLen = Buffer.byteLength(password);
+	if (uLen === 0) throw new Error("SOCKS5 username is empty");
+	if (uLen > 255) {
+		throw new Error(`SOCKS5 username too long (${uLen} bytes, max 255)`);
+	}
+	if (pLen === 0) throw new Error("SOCKS5 password is empty");
+	if (pLen > 255) {
+		throw new Error(`SOCKS5 password too long (${pLen} bytes, max 255)`);
+	}
+}
+
+/**
+ * Method 0x02: RFC 1929 username/password. The credentials are checked
+ * against the field limits here, so a bad pair fails before dialing; so do
+ * credentials from the proxy URL.
+ */
+export function usernamePasswordAuthentication(
+	user: string,
+	password: string,
+): Socks5AuthMethod {
+	validateSocks5Credentials(user, password);
+	const uBuf = Buffer.from(user);
+	const pBuf = Buffer.from(password);
+	return {
+		method: 0x02,
+		async authenticate({ socket, read }) {
+			// VER(0x01) | ULEN | UNAME | PLEN | PASSWD
+			socket.write(
+				Buffer.concat([
+					Buffer.from([0x01, uBuf.length]),
+					uBuf,
+					Buffer.from([pBuf.length]),
+					pBuf,
+				]),
+			);
+
+			// VER(0x01) | STATUS
+			const status = await read(2);
+			if (status[0] !== 0x01) {
+				throw new Error("Invalid SOCKS5 authentication reply version");
+			}
+			if (status[1] !== 0x00) throw new Error("SOCKS5 Authentication failed");
+		},
+	};
+}
+
+/**
+ * The methods offered when the caller does not choose: no-auth, plus
+ * username/password when the proxy URL carries credentials. A URL with only
+ * one of the two is rejected rather than silently sent without them.
+ */
+export function defaultAuthMethods(
+	user: string,
+	password: string,
+): Socks5AuthMethod[] {
+	return user || password
+		? [noAuthentication, usernamePasswordAuthentication(user, password)]
+		: [noAuthentication];
+}
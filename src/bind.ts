@@ -0,0 +1,133 @@
+import type * as net from "node:net";
+import type { Socks5AuthMethod } from "./auth";
+import { convert } from "./convert";
+import { parseProxyUrl } from "./fetch";
+import {
+	connectToProxy,
+	negotiateSocks5,
+	readSocks5Reply,
+	SOCKS5_CMD_BIND,
+	type Socks5Address,
+	Socks5Reader,
+	sendSocks5Request,
+	socks5AuthMethods,
+	substituteUnspecified,
+} from "./socks5";
+import { armTimeout, resolveTimeouts, type Timeouts } from "./timeouts";
+
+/** An inbound connection accepted by the proxy on our behalf. */
+export interface Socks5BindConnection {
+	/** Tunnel to the peer that connected to the bound address. */
+	socket: net.Socket;
+	/** Address of that peer, as reported in the second BIND reply. */
+	remote: Socks5Address;
+}
+
+/** Result of the first BIND reply. */
+export interface Socks5Bind {
+	/** Where the proxy listens for the peer; hand this to the remote side. */
+	bound: Socks5Address;
+	/**
+	 * Resolves once the peer connects (the second BIND reply). Rejects if the
+	 * proxy refuses the connection, the control socket closes or `close()` is
+	 * called first.
+	 */
+	accepted: Promise<Socks5BindConnection>;
+	/** Give up waiting and close the control connection. */
+	close(): void;
+}
+
+/**
+ * Issue a SOCKS5 BIND (CMD=0x02), for protocols where the remote side
+ * connects back to us — e.g. active-mode FTP.
+ *
+ * `targetHost`/`targetPort` name the peer we expect the connection from; most
+ * proxies use it to filter who may connect. The returned promise resolves
+ * after the first reply with the proxy's listening address, while
+ * `accepted` resolves with the tunneled socket after the second.
+ *
+ * @example
+ * ```ts
+ * const bind = await bindSocks5(proxy, "ftp.example.com", 21);
+ * control.write(`PORT ${toFtpPort(bind.bound)}\r\n`);
+ * const { socket } = await bind.accepted;
+ * ```
+ */
+export async function bindSocks5(
+	proxy: string,
+	targetHost: string,
+	targetPort: number,
+	options?: {
+		signal?: AbortSignal;
+		auth?: Socks5AuthMethod[];
+		timeouts?: Timeouts;
+	},
+): Promise<Socks5Bind> {
+	const config = {
+		...parseProxyUrl(convert(proxy)),
+		auth: options?.auth,
+		timeouts: resolveTimeouts(options?.timeouts),
+	};
+	if (config.protocol !== "socks5" && config.protocol !== "socks5+tls") {
+		throw new Error(`BIND requires a SOCKS5 proxy, got ${config.protocol}`);
+	}
+
+	socks5AuthMethods(config);
+	const signal = options?.signal;
+	const socket = await connectToProxy(config, signal);
+
+	// The abort listener stays attached until the peer connects: aborting
+	// while we wait for the second reply is as valid as during the handshake.
+	const abortHandler = () => {
+		socket.destroy(signal?.reason || new Error("Request aborted"));
+	};
+	signal?.addEventListener("abort", abortHandler);
+	// Only the handshake is limited; the peer may take as long as it likes.
+	const disarm = armTimeout("handshake", config.timeouts.handshake, (err) =>
+		socket.destroy(err),
+	);
+
+	const reader = new Socks5Reader(socket);
+	const peer = { host: targetHost, port: targetPort };
+	let bound: Socks5Address;
+	try {
+		await negotiateSocks5(reader, config);
+		bound = await sendSocks5Request(reader, config, SOCKS5_CMD_BIND, peer);
+	} catch (err) {
+		signal?.removeEventListener("abort", abortHandler);
+		reader.release();
+		socket.destroy();
+		throw err;
+	} finally {
+		disarm();
+	}
+
+	// Keep reading right away: the second reply may arrive before the caller
+	// gets around to awaiting `accepted` (or even in the same packet as the
+	// first one).
+	const accepted = readSocks5Reply(reader, config, SOCKS5_CMD_BIND, peer).then(
+		(remote) => {
+			reader.release();
+			return { socket, remote };
+		},
+		(err) => {
+			reader.release();
+			socket.destroy();
+			throw err;
+		},
+	);
+	accepted
+		.finally(() => signal?.removeEventListener("abort", abortHandler))
+		.catch(() => {
+			// Surfaced through `accepted`; avoid an unhandled rejection if the
+			// caller closes without ever awaiting it.
+		});
+
+	return {
+		bound: substituteUnspecified(bound, socket, config.host),
+		accepted,
+		close: () => {
+			socket.destroy(new Error("SOCKS5 BIND closed before a peer connected"));
+		},
+	};
+}
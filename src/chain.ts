@@ -0,0 +1,88 @@
+import type * as net from "node:net";
+import type * as tls from "node:tls";
+import type { HeadersInit } from "bun";
+import type { Socks5AuthMethod } from "./auth";
+import { ProxyChainError, redactProxy } from "./errors";
+import type { parseProxyUrl } from "./fetch";
+import { openHttpConnectTunnel } from "./http-connect";
+import { openShadowsocksTunnel } from "./shadowsocks";
+import { connectSocks4 } from "./socks4";
+import { openSocks5Tunnel } from "./socks5";
+
+/** One parsed hop of a proxy chain, plus TLS options if it is a TLS proxy. */
+export type ProxyHop = ReturnType<typeof parseProxyUrl> & {
+	tls?: tls.ConnectionOptions;
+};
+
+/**
+ * Open a tunnel from `via` (or a fresh connection when absent) through `hop`
+ * to `host:port`, using the handshake the hop's protocol calls for.
+ */
+function openHop(
+	hop: ProxyHop,
+	host: string,
+	port: number,
+	signal: AbortSignal | undefined,
+	via: net.Socket | undefined,
+	auth: Socks5AuthMethod[] | undefined,
+	headers: HeadersInit | undefined,
+): Promise<net.Socket> {
+	switch (hop.protocol) {
+		case "socks5":
+		case "socks5+tls":
+			return openSocks5Tunnel({ ...hop, auth }, host, port, signal, via).then(
+				(tunnel) => tunnel.socket,
+			);
+		case "socks4":
+		case "socks4a":
+			return connectSocks4(hop, host, port, false, signal, via);
+		case "ss":
+			return openShadowsocksTunnel(hop, host, port, signal, via);
+		default:
+			return openHttpConnectTunnel(hop, host, port, signal, via, headers);
+	}
+}
+
+/**
+ * Build a tunnel to `targetHost:targetPort` through every hop in order: the
+ * first hop is dialed directly, and each later hop's handshake runs over the
+ * tunnel the previous hop opened to it. SOCKS4/4a, SOCKS5, Shadowsocks and
+ * HTTP(S) CONNECT hops can be mixed freely; TLS to a hop is layered inside the tunnel that
+ * reaches it.
+ *
+ * `auth` and the HTTP proxy `headers` apply to the last hop only. Failures
+ * are reported as a {@link ProxyChainError} naming the hop.
+ */
+export async function openProxyChain(
+	hops: ProxyHop[],
+	targetHost: string,
+	targetPort: number,
+	signal?: AbortSignal,
+	auth?: Socks5AuthMethod[],
+	headers?: HeadersInit,
+): Promise<net.Socket> {
+	if (hops.length === 0) throw new Error("Proxy chain is empty");
+
+	let socket: net.Socket | undefined;
+	for (let i = 0; i < hops.length; i++) {
+		const hop = hops[i] as ProxyHop;
+		const next = hops[i + 1];
+		const last = next === undefined;
+		try {
+			socket = await openHop(
+				hop,
+				last ? targetHost : next.host,
+				last ? targetPort : next.port,
+				signal,
+				socket,
+				last ? auth : undefined,
+				last ? headers : undefined,
+			);
+		} catch (err) {
+			socket?.destroy();
+			if (signal?.aborted) throw err;
+			throw new ProxyChainError(i + 1, hops.length, redactProxy(hop), err);
+		}
+	}
+	return socket as net.Socket;
+}
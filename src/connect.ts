@@ -0,0 +1,431 @@
+import * as net from "node:net";
+import * as tls from "node:tls";
+import { convert } from "./convert";
+import { ProxyTimeoutError, StrictModeError } from "./errors";
+import {
+	connectSocks,
+	enforceStrict,
+	localBinding,
+	type ProxyOptions,
+	parseHttpHead,
+	pinTargetOverDoh,
+} from "./fetch";
+import { applyIsolation, checkIsolationAuth, isolationKey } from "./isolation";
+import { reportNativeLookup } from "./lookup";
+import { bypassesProxy, noProxyFromEnv } from "./no-proxy";
+import { resolveTimeouts } from "./timeouts";
+
+/** Options for {@link connect}. */
+export interface ConnectOptions {
+	/** Target host, as the proxy should dial it. */
+	host: string;
+	port: number;
+	/** Proxy URL, chain of URLs, or the same object `fetch` accepts. */
+	proxy: string | string[] | ProxyOptions;
+	/** Wrap the tunnel in TLS to the target; an object sets the TLS options. */
+	tls?: boolean | tls.ConnectionOptions;
+	/** Aborts while the tunnel is being set up; no effect once it is open. */
+	signal?: AbortSignal;
+	/**
+	 * Deadline in milliseconds for the whole setup, after which it fails with
+	 * a `TotalTimeoutError`. Default: 30000.
+	 */
+	timeout?: number;
+}
+
+/**
+ * Options for {@link dialTarget}. Unlike {@link connect}, `proxy` may be left
+ * out to use the proxy environment variables, or `null` to connect directly.
+ */
+export interface DialOptions extends Omit<ConnectOptions, "proxy"> {
+	proxy?: ConnectOptions["proxy"] | null;
+}
+
+/** Status line and headers of a response read off a raw socket. */
+export type ResponseHead = NonNullable<ReturnType<typeof parseHttpHead>> & {
+	/** Bytes that arrived after the head. */
+	rest: Buffer;
+};
+
+/** Callbacks of the {@link connect} handler variant, modeled on `Bun.connect`. */
+export interface ProxySocketHandler<Data = undefined> {
+	open?(socket: ProxySocket<Data>): void | Promise<void>;
+	data?(socket: ProxySocket<Data>, data: Buffer): void | Promise<void>;
+	drain?(socket: ProxySocket<Data>): void | Promise<void>;
+	end?(socket: ProxySocket<Data>): void | Promise<void>;
+	close?(socket: ProxySocket<Data>, error?: Error): void | Promise<void>;
+	error?(socket: ProxySocket<Data>, error: Error): void | Promise<void>;
+	timeout?(socket: ProxySocket<Data>): void | Promise<void>;
+}
+
+/**
+ * A tunneled socket with the surface of a Bun `Socket`: `write` returns the
+ * bytes accepted, events go to the handler object, and `data` holds
+ * per-connection state.
+ */
+export class ProxySocket<Data = undefined> {
+	constructor(
+		private socket: net.Socket | tls.TLSSocket,
+		handler: ProxySocketHandler<Data>,
+		public data: Data,
+	) {
+		let closeError: Error | undefined;
+		socket.on("data", (chunk: Buffer) => handler.data?.(this, chunk));
+		socket.on("drain", () => handler.drain?.(this));
+		socket.on("end", () => handler.end?.(this));
+		socket.on("timeout", () => handler.timeout?.(this));
+		socket.on("error", (err) => {
+			closeError = err;
+			handler.error?.(this, err);
+		});
+		socket.on("close", () => handler.close?.(this, closeError));
+	}
+
+	/** Queue `data` for sending and return the number of bytes accepted. */
+	write(
+		data: string | ArrayBufferView | ArrayBuffer,
+		byteOffset = 0,
+		byteLength?: number,
+	): number {
+		const buf = toBuffer(data, byteOffset, byteLength);
+		if (this.socket.destroyed || !this.socket.writable) return -1;
+		this.socket.write(buf);
+		return buf.length;
+	}
+
+	/** Write `data` if given, then half-close the connection. */
+	end(
+		data?: string | ArrayBufferView | ArrayBuffer,
+		byteOffset = 0,
+		byteLength?: number,
+	): number {
+		const written =
+			data === undefined ? 0 : this.write(data, byteOffset, byteLength);
+		this.socket.end();
+		return written;
+	}
+
+	/** Half-close the writable side. */
+	shutdown(): void {
+		this.socket.end();
+	}
+
+	/** Close immediately, discarding anything still queued. */
+	terminate(): void {
+		this.socket.destroy();
+	}
+
+	/** Writes are handed to the kernel as they are made; kept for parity. */
+	flush(): void {}
+
+	/** Call the `timeout` handler after `seconds` of inactivity (0 disables). */
+	timeout(seconds: number): void {
+		this.socket.setTimeout(seconds * 1000);
+	}
+
+	ref(): void {
+		this.socket.ref();
+	}
+
+	unref(): void {
+		this.socket.unref();
+	}
+
+	get readyState(): "open" | "closed" {
+		return this.socket.destroyed ? "closed" : "open";
+	}
+
+	get remoteAddress(): string | undefined {
+		return this.socket.remoteAddress;
+	}
+}
+
+function toBuffer(
+	data: string | ArrayBufferView | ArrayBuffer,
+	byteOffset: number,
+	byteLength: number | undefined,
+): Buffer {
+	if (typeof data === "string") {
+		return Buffer.from(data).subarray(
+			byteOffset,
+			byteLength === undefined ? undefined : byteOffset + byteLength,
+		);
+	}
+	const view = ArrayBuffer.isView(data)
+		? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+		: Buffer.from(data);
+	return view.subarray(
+		byteOffset,
+		byteLength === undefined ? undefined : byteOffset + byteLength,
+	);
+}
+
+/**
+ * Open the tunnel described by `options`, racing it against `signal` and
+ * the setup deadline.
+ */
+async function openTunnel(
+	options: ConnectOptions,
+): Promise<net.Socket | tls.TLSSocket> {
+	const { host, port } = options;
+	const proxyOptions =
+		typeof options.proxy === "string" || Array.isArray(options.proxy)
+			? { url: options.proxy }
+			: options.proxy;
+	const urls = (
+		Array.isArray(proxyOptions.url) ? proxyOptions.url : [proxyOptions.url]
+	).map((url) => convert(url));
+	if (urls.length === 0) throw new Error("Proxy chain is empty");
+	if (proxyOptions.isolation) {
+		checkIsolationAuth(proxyOptions.auth);
+		const target = new URL(
+			`tcp://${host.includes(":") ? `[${host}]` : host}:${port}`,
+		);
+		urls.push(
+			applyIsolation(
+				urls.pop() as string,
+				isolationKey(proxyOptions.isolation, target),
+			),
+		);
+	}
+
+	const timeout = options.timeout ?? 30000;
+	const deadline = AbortSignal.timeout(timeout);
+	const signal = options.signal
+		? AbortSignal.any([options.signal, deadline])
+		: deadline;
+	const reason = () =>
+		options.signal?.aborted
+			? options.signal.reason || new Error("Request aborted")
+			: new ProxyTimeoutError("total", timeout);
+	if (signal.aborted) throw reason();
+
+	const dnsOptions = proxyOptions.strict
+		? enforceStrict(
+				host,
+				port,
+				urls[urls.length - 1] as string,
+				proxyOptions.resolveDnsLocally ?? false,
+				proxyOptions.dns,
+			)
+		: proxyOptions.dns;
+	const timeouts = resolveTimeouts(proxyOptions.timeouts);
+	const pending = pinTargetOverDoh(
+		dnsOptions,
+		host,
+		port,
+		{ ...proxyOptions, url: urls },
+		timeouts,
+		urls.join(" -> "),
+	).then((dns) =>
+		connectSocks(urls, host, port, {
+			useTLS: options.tls !== undefined && options.tls !== false,
+			resolveDnsLocally: proxyOptions.resolveDnsLocally,
+			signal,
+			tls: typeof options.tls === "object" ? options.tls : undefined,
+			family: proxyOptions.family,
+			auth: proxyOptions.auth,
+			proxyHeaders: proxyOptions.headers,
+			proxyTls: proxyOptions.tls,
+			attemptDelay: proxyOptions.attemptDelay,
+			timeouts,
+			local: localBinding(proxyOptions),
+			dns,
+		}),
+	);
+
+	// Not every handshake step watches the signal (the target TLS handshake,
+	// for one), so race it here and close a tunnel that arrives too late.
+	let onAbort: () => void = () => {};
+	const aborted = new Promise<never>((_, reject) => {
+		onAbort = () => reject(reason());
+		signal.addEventListener("abort", onAbort, { once: true });
+	});
+	try {
+		return await Promise.race([pending, aborted]);
+	} catch (err) {
+		pending.then(
+			(socket) => socket.destroy(),
+			() => {},
+		);
+		throw signal.aborted ? reason() : err;
+	} finally {
+		signal.removeEventListener("abort", onAbort);
+	}
+}
+
+/**
+ * Open a raw TCP tunnel to `host:port` through any supported proxy (SOCKS4/4a,
+ * SOCKS5, Shadowsocks, HTTP(S) CONNECT, or a chain of them), for protocols
+ * other than HTTP: database drivers, Redis, SMTP and so on.
+ *
+ * Resolves with a connected duplex socket (a `TLSSocket` after the handshake
+ * when `tls` is set). With a `socket` handler object instead, it behaves like
+ * `Bun.connect`: events are delivered to the handlers and the promise
+ * resolves with a {@link ProxySocket} after `open` has been called.
+ *
+ * @example
+ * ```ts
+ * const socket = await connect({
+ *   host: "db.internal",
+ *   port: 5432,
+ *   proxy: "socks5://127.0.0.1:1080",
+ *   timeout: 10_000,
+ * });
+ *
+ * await connect({
+ *   host: "smtp.example.com",
+ *   port: 465,
+ *   proxy: "http://proxy.example.com:8080",
+ *   tls: true,
+ *   socket: {
+ *     data(socket, data) { console.log(data.toString()); },
+ *     close() { console.log("closed"); },
+ *   },
+ * });
+ * ```
+ */
+export function connect(
+	options: ConnectOptions,
+): Promise<net.Socket | tls.TLSSocket>;
+export function connect<Data = undefined>(
+	options: ConnectOptions & { socket: ProxySocketHandler<Data>; data?: Data },
+): Promise<ProxySocket<Data>>;
+export async function connect<Data = undefined>(
+	options: ConnectOptions & { socket?: ProxySocketHandler<Data>; data?: Data },
+): Promise<net.Socket | tls.TLSSocket | ProxySocket<Data>> {
+	const socket = await openTunnel(options);
+	if (!options.socket) return socket;
+
+	const wrapped = new ProxySocket(socket, options.socket, options.data as Data);
+	await options.socket.open?.(wrapped);
+	return wrapped;
+}
+
+/**
+ * Open a connection to `host:port` for the clients that speak HTTP over a
+ * socket of their own (WebSocket, EventSource): tunneled like {@link connect}
+ * when a proxy is configured, otherwise dialed directly. As with `fetch`, an
+ * omitted `proxy` falls back to SOCKS5_PROXY, SOCKS_PROXY, HTTP_PROXY and
+ * HTTPS_PROXY, and targets on the bypass list (`proxy.bypass`, or NO_PROXY
+ * for those variables) are dialed directly.
+ */
+export async function dialTarget(
+	options: DialOptions,
+): Promise<net.Socket | tls.TLSSocket> {
+	const proxy =
+		options.proxy === undefined
+			? process.env.SOCKS5_PROXY ||
+				process.env.SOCKS_PROXY ||
+				process.env.HTTP_PROXY ||
+				process.env.HTTPS_PROXY ||
+				null
+			: options.proxy;
+	const proxyOptions =
+		typeof proxy === "object" && proxy !== null && !Array.isArray(proxy)
+			? proxy
+			: null;
+	const bypass =
+		options.proxy === undefined ? noProxyFromEnv() : proxyOptions?.bypass;
+	if (proxy && !bypassesProxy(options.host, options.port, bypass)) {
+		return openTunnel({ ...options, proxy });
+	}
+	if (proxy && proxyOptions?.strict) {
+		throw new StrictModeError(
+			"fallback",
+			`${options.host}:${options.port} is on the proxy's bypass list, and strict connections are never made directly`,
+		);
+	}
+
+	const { host, port, signal } = options;
+	reportNativeLookup(host);
+	const timeout = options.timeout ?? 30000;
+	const secure = options.tls !== undefined && options.tls !== false;
+	if (signal?.aborted) throw signal.reason || new Error("Request aborted");
+	return new Promise((resolve, reject) => {
+		const socket = secure
+			? tls.connect({
+					host,
+					port,
+					servername: net.isIP(host) ? undefined : host,
+					...(typeof options.tls === "object" ? options.tls : {}),
+				})
+			: net.connect(port, host);
+		const cleanup = () => {
+			signal?.removeEventListener("abort", onAbort);
+			socket.removeListener("error", onError);
+			socket.setTimeout(0);
+		};
+		const onAbort = () => {
+			cleanup();
+			socket.destroy();
+			reject(signal?.reason || new Error("Request aborted"));
+		};
+		const onError = (err: Error) => {
+			cleanup();
+			reject(err);
+		};
+		signal?.addEventListener("abort", onAbort);
+		socket.once("error", onError);
+		socket.setTimeout(timeout, () => {
+			cleanup();
+			socket.destroy();
+			reject(
+				new Error(`Connecting to ${host}:${port} timed out after ${timeout}ms`),
+			);
+		});
+		socket.once(secure ? "secureConnect" : "connect", () => {
+			cleanup();
+			resolve(socket);
+		});
+	});
+}
+
+/**
+ * Read the response head of a request written to `socket` by hand. Bytes
+ * after the head are returned in `rest` and the socket's listeners are left
+ * as they were, so the caller can take over the stream.
+ */
+export function readResponseHead(
+	socket: net.Socket,
+	timeout: number,
+	signal?: AbortSignal,
+): Promise<ResponseHead> {
+	return new Promise((resolve, reject) => {
+		let buf: Buffer = Buffer.alloc(0);
+		const cleanup = () => {
+			socket.removeListener("data", onData);
+			socket.removeListener("error", onError);
+			socket.removeListener("close", onClose);
+			signal?.removeEventListener("abort", onAbort);
+			socket.setTimeout(0);
+		};
+		const onData = (chunk: Buffer) => {
+			buf = Buffer.concat([buf, chunk]);
+			const parsed = parseHttpHead(buf);
+			if (!parsed) return;
+			cleanup();
+			resolve({ ...parsed, rest: buf.subarray(parsed.bodyStart) });
+		};
+		const onError = (err: Error) => {
+			cleanup();
+			reject(err);
+		};
+		const onClose = () => {
+			cleanup();
+			reject(new Error("Connection closed before the response headers"));
+		};
+		const onAbort = () => {
+			cleanup();
+			reject(signal?.reason || new Error("Request aborted"));
+		};
+		socket.on("data", onData);
+		socket.on("error", onError);
+		socket.on("close", onClose);
+		signal?.addEventListener("abort", onAbort);
+		socket.setTimeout(timeout, () => {
+			cleanup();
+			reject(new Error(`No response headers within ${timeout}ms`));
+		});
+	});
+}
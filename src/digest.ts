@@ -0,0 +1,120 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/** Parameters of a `Digest` challenge (RFC 7616 §3.3). */
+export interface DigestChallenge {
+	realm: string;
+	nonce: string;
+	qop?: string;
+	opaque?: string;
+	algorithm: string;
+}
+
+/**
+ * Find the Digest challenge among `Proxy-Authenticate` values. A proxy may
+ * offer several schemes in one header (`Basic realm="x", Digest realm="y"`),
+ * so the Digest part is located and parsed on its own. Returns null if there
+ * is none or it lacks a nonce.
+ */
+export function parseDigestChallenge(header: string): DigestChallenge | null {
+	const match = /(?:^|[\s,])Digest\s+/i.exec(header);
+	if (!match) return null;
+
+	// auth-param = token "=" ( token / quoted-string ), comma separated. A
+	// token with no "=" after it is the next scheme, which ends this one.
+	const params = new Map<string, string>();
+	const param = /\s*,?\s*([!#$%&'*+.^_`|~0-9a-z-]+)\s*(=)?\s*/iy;
+	param.lastIndex = match.index + match[0].length;
+	while (param.lastIndex < header.length) {
+		const p = param.exec(header);
+		if (!p || !p[2]) break;
+		const key = (p[1] as string).toLowerCase();
+		let value: string;
+		if (header[param.lastIndex] === '"') {
+			const quoted = /"((?:[^"\\]|\\.)*)"/y;
+			quoted.lastIndex = param.lastIndex;
+			const q = quoted.exec(header);
+			if (!q) break;
+			value = (q[1] as string).replace(/\\(.)/g, "$1");
+			param.lastIndex = quoted.lastIndex;
+		} else {
+			const token = /[^\s,]*/y;
+			token.lastIndex = param.lastIndex;
+			value = (token.exec(header) as RegExpExecArray)[0];
+			param.lastIndex = token.lastIndex;
+		}
+		params.set(key, value);
+	}
+
+	const nonce = params.get("nonce");
+	if (!nonce) return null;
+	return {
+		realm: params.get("realm") ?? "",
+		nonce,
+		qop: params.get("qop"),
+		opaque: params.get("opaque"),
+		algorithm: params.get("algorithm") ?? "MD5",
+	};
+}
+
+/** Hash behind each supported `algorithm`, without its `-sess` suffix. */
+const DIGEST_HASHES: Record<string, string> = {
+	MD5: "md5",
+	"SHA-256": "sha256",
+};
+
+/** `value` as an RFC 9110 quoted-string, escaping `\` and `"`. */
+function quote(value: string): string {
+	return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Build the `Proxy-Authorization: Digest …` value answering `challenge` for
+ * `method uri`. Supports MD5 and SHA-256 (and their `-sess` variants) with
+ * `qop=auth` or the legacy no-qop form; null for any other algorithm, such
+ * as SHA-512-256.
+ */
+export function buildDigestAuthorization(
+	challenge: DigestChallenge,
+	user: string,
+	password: string,
+	method: string,
+	uri: string,
+): string | null {
+	const algorithm = challenge.algorithm.toUpperCase();
+	const hashName = DIGEST_HASHES[algorithm.replace(/-SESS$/, "")];
+	if (!hashName) return null;
+	const h = (data: string) => createHash(hashName).update(data).digest("hex");
+
+	const cnonce = randomBytes(8).toString("hex");
+	const nc = "00000001";
+	let ha1 = h(`${user}:${challenge.realm}:${password}`);
+	if (algorithm.endsWith("-SESS")) {
+		ha1 = h(`${ha1}:${challenge.nonce}:${cnonce}`);
+	}
+	const ha2 = h(`${method}:${uri}`);
+
+	// Only `auth` is supported; `auth-int` would need the entity body.
+	const qop = challenge.qop
+		?.split(",")
+		.map((q) => q.trim())
+		.includes("auth")
+		? "auth"
+		: undefined;
+	const response = qop
+		? h(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+		: h(`${ha1}:${challenge.nonce}:${ha2}`);
+
+	const parts = [
+		`username=${quote(user)}`,
+		`realm=${quote(challenge.realm)}`,
+		`nonce=${quote(challenge.nonce)}`,
+		`uri=${quote(uri)}`,
+		`algorithm=${challenge.algorithm}`,
+		`response=${quote(response)}`,
+	];
+	if (qop) parts.push(`qop=${qop}`, `nc=${nc}`, `cnonce=${quote(cnonce)}`);
+	if (challenge.opaque !== undefined) {
+		parts.push(`opaque=${quote(challenge.opaque)}`);
+	}
+	return `Digest ${parts.join(", ")}`;
+}
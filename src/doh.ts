@@ -0,0 +1,181 @@
+import type { ResolvedAddress, Resolver } from "./lookup";
+
+/** Where and how to send DNS-over-HTTPS queries. */
+export interface DohOptions {
+	/** Resolver endpoint, e.g. `https://cloudflare-dns.com/dns-query`. */
+	url: string;
+	/**
+	 * `GET` puts the query in the `dns` URL parameter, which HTTP caches
+	 * understand; `POST` sends it as the body. Default: `GET`.
+	 */
+	method?: "GET" | "POST";
+}
+
+const DNS_TYPE_A = 1;
+const DNS_TYPE_AAAA = 28;
+const DNS_CLASS_IN = 1;
+
+/** RFC 1035 §4.1.1 response codes, by value. */
+const RCODE_NAMES = [
+	"NOERROR",
+	"FORMERR",
+	"SERVFAIL",
+	"NXDOMAIN",
+	"NOTIMP",
+	"REFUSED",
+];
+
+/**
+ * Build a DNS query message for `name` (RFC 1035 §4.1) with recursion
+ * desired. The ID is 0, as RFC 8484 §4.1 asks, to keep GET requests
+ * cacheable.
+ */
+export function encodeDnsQuery(name: string, type: number): Uint8Array {
+	const labels = name.replace(/\.$/, "").split(".");
+	const qname: number[] = [];
+	for (const label of labels) {
+		const bytes = Buffer.from(label, "ascii");
+		if (bytes.length === 0 || bytes.length > 63) {
+			throw new Error(`Invalid DNS name: ${name}`);
+		}
+		qname.push(bytes.length, ...bytes);
+	}
+	qname.push(0);
+	if (qname.length > 255) throw new Error(`DNS name too long: ${name}`);
+
+	const message = Buffer.alloc(12 + qname.length + 4);
+	message.writeUInt16BE(0x0100, 2); // RD
+	message.writeUInt16BE(1, 4); // QDCOUNT
+	message.set(qname, 12);
+	message.writeUInt16BE(type, 12 + qname.length);
+	message.writeUInt16BE(DNS_CLASS_IN, 14 + qname.length);
+	return message;
+}
+
+/** Offset just past the (possibly compressed) name that starts at `offset`. */
+function skipName(message: Buffer, offset: number): number {
+	let pos = offset;
+	for (;;) {
+		const length = message[pos];
+		if (length === undefined) throw new Error("Truncated DNS message");
+		if (length === 0) return pos + 1;
+		// A pointer (RFC 1035 §4.1.4) ends the name.
+		if ((length & 0xc0) === 0xc0) return pos + 2;
+		pos += 1 + length;
+	}
+}
+
+function formatIPv6(bytes: Buffer): string {
+	const groups: string[] = [];
+	for (let i = 0; i < 16; i += 2) {
+		groups.push(bytes.readUInt16BE(i).toString(16));
+	}
+	// Let URL produce the canonical compressed form
+	return new URL(`http://[${groups.join(":")}]/`).hostname.slice(1, -1);
+}
+
+/**
+ * The A and AAAA records in a DNS response, with their TTLs. CNAMEs and
+ * other records are skipped; the recursive resolver has already followed
+ * them. NXDOMAIN rejects with an `ENOTFOUND` error, other failures with the
+ * response code's name.
+ */
+export function parseDnsResponse(
+	data: Uint8Array,
+	name: string,
+): ResolvedAddress[] {
+	const message = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+	if (message.length < 12) throw new Error("Truncated DNS message");
+	const rcode = message.readUInt16BE(2) & 0x0f;
+	if (rcode === 3) {
+		throw Object.assign(new Error(`DNS name not found: ${name}`), {
+			code: "ENOTFOUND",
+		});
+	}
+	if (rcode !== 0) {
+		throw new Error(
+			`DNS query for ${name} failed: ${RCODE_NAMES[rcode] ?? `RCODE ${rcode}`}`,
+		);
+	}
+
+	let offset = 12;
+	for (let i = message.readUInt16BE(4); i > 0; i--) {
+		offset = skipName(message, offset) + 4;
+	}
+	const addresses: ResolvedAddress[] = [];
+	for (let i = message.readUInt16BE(6); i > 0; i--) {
+		offset = skipName(message, offset);
+		if (offset + 10 > message.length) throw new Error("Truncated DNS message");
+		const type = message.readUInt16BE(offset);
+		const ttl = message.readUInt32BE(offset + 4);
+		const length = message.readUInt16BE(offset + 8);
+		const rdata = message.subarray(offset + 10, offset + 10 + length);
+		if (rdata.length !== length) throw new Error("Truncated DNS message");
+		offset += 10 + length;
+		if (type === DNS_TYPE_A && length === 4) {
+			addresses.push({ address: rdata.join("."), family: 4, ttl });
+		} else if (type === DNS_TYPE_AAAA && length === 16) {
+			addresses.push({ address: formatIPv6(rdata), family: 6, ttl });
+		}
+	}
+	return addresses;
+}
+
+/**
+ * A {@link Resolver} that asks a DNS-over-HTTPS server (RFC 8484) for A and
+ * AAAA records in parallel. `send` performs the HTTP exchange; `fetch` uses
+ * this with its own proxy, so the queries travel through the same tunnel as
+ * the requests they resolve for.
+ */
+export function dohResolver(
+	options: DohOptions | string,
+	send: (request: Request) => Promise<Response> = (request) =>
+		globalThis.fetch(request),
+): Resolver {
+	const { url, method = "GET" } =
+		typeof options === "string" ? { url: options } : options;
+
+	const query = async (name: string, type: number) => {
+		const message = encodeDnsQuery(name, type);
+		const headers = { accept: "application/dns-message" };
+		let request: Request;
+		if (method === "POST") {
+			request = new Request(url, {
+				method,
+				headers: { ...headers, "content-type": "application/dns-message" },
+				body: message,
+			});
+		} else {
+			const target = new URL(url);
+			target.searchParams.set(
+				"dns",
+				Buffer.from(message).toString("base64url"),
+			);
+			request = new Request(target.href, { headers });
+		}
+
+		const response = await send(request);
+		const contentType = response.headers.get("content-type") ?? "";
+		if (!response.ok || !contentType.startsWith("application/dns-message")) {
+			await response.body?.cancel();
+			throw new Error(
+				`DoH query for ${name} failed: ${response.status} ${contentType || "(no content type)"}`,
+			);
+		}
+		return parseDnsResponse(new Uint8Array(await response.arrayBuffer()), name);
+	};
+
+	return async (hostname) => {
+		const answers = await Promise.allSettled([
+			query(hostname, DNS_TYPE_A),
+			query(hostname, DNS_TYPE_AAAA),
+		]);
+		const found = answers.flatMap((a) =>
+			a.status === "fulfilled" ? a.value : [],
+		);
+		// One family answering is enough; otherwise report the first failure.
+		const failed = answers.find((a) => a.status === "rejected");
+		if (found.length === 0 && failed) throw failed.reason;
+		return found;
+	};
+}
@@ -0,0 +1,374 @@
+import type * as net from "node:net";
+import type * as tls from "node:tls";
+import type { HeadersInit } from "bun";
+import { dialTarget, type ResponseHead, readResponseHead } from "./connect";
+import {
+	buildRedirectHeaders,
+	ChunkedDecoder,
+	determineBodyMode,
+	type ProxyOptions,
+} from "./fetch";
+
+/** Redirects followed per connection attempt, as browsers allow. */
+const MAX_REDIRECTS = 20;
+
+/** The server answered with something other than an event stream. */
+class StreamRejectedError extends Error {}
+
+/** Options for {@link EventSource}. */
+export interface EventSourceOptions {
+	/** Kept for compatibility; cookies are not managed by this client. */
+	withCredentials?: boolean;
+	/**
+	 * Proxy to tunnel through, as for `fetch`. Defaults to the proxy
+	 * environment variables; `null` (or no proxy at all) connects directly.
+	 */
+	proxy?: string | string[] | ProxyOptions | null;
+	/** TLS options for `https://` streams. */
+	tls?: tls.ConnectionOptions;
+	/** Extra request headers (authorization, cookies). */
+	headers?: HeadersInit;
+	/** Deadline in milliseconds for connecting and the response headers. Default: 30000. */
+	timeout?: number;
+}
+
+/**
+ * Incremental `text/event-stream` parser (WHATWG HTML §9.2.6). Feed it text
+ * as it arrives; complete events are passed to `dispatch`.
+ */
+class EventStreamParser {
+	private line = "";
+	private skipLF = false;
+	private data = "";
+	private eventType = "";
+	private idBuffer = "";
+	/** ID of the last event, sent as Last-Event-ID when reconnecting. */
+	lastEventId = "";
+
+	constructor(
+		private dispatch: (type: string, data: string, lastEventId: string) => void,
+		private onRetry: (ms: number) => void,
+	) {}
+
+	feed(text: string): void {
+		let start = 0;
+		for (let i = 0; i < text.length; i++) {
+			const ch = text.charCodeAt(i);
+			if (ch !== 0x0a && ch !== 0x0d) continue;
+			if (ch === 0x0a && this.skipLF && i === start) {
+				// Second half of a CRLF split across chunks, or right after CR.
+				this.skipLF = false;
+				start = i + 1;
+				continue;
+			}
+			this.processLine(this.line + text.slice(start, i));
+			this.line = "";
+			this.skipLF = ch === 0x0d;
+			start = i + 1;
+		}
+		if (start < text.length) {
+			this.line += text.slice(start);
+			this.skipLF = false;
+		}
+	}
+
+	/** Drop a half-received event, as when the connection drops. */
+	reset(): void {
+		this.line = "";
+		this.skipLF = false;
+		this.data = "";
+		this.eventType = "";
+	}
+
+	private processLine(line: string): void {
+		if (line === "") {
+			this.dispatchEvent();
+			return;
+		}
+		if (line.startsWith(":")) return;
+		const colon = line.indexOf(":");
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? "" : line.slice(colon + 1);
+		if (value.startsWith(" ")) value = value.slice(1);
+
+		switch (field) {
+			case "event":
+				this.eventType = value;
+				break;
+			case "data":
+				this.data += `${value}\n`;
+				break;
+			case "id":
+				if (!value.includes("\0")) this.idBuffer = value;
+				break;
+			case "retry":
+				if (/^\d+$/.test(value)) this.onRetry(Number(value));
+				break;
+		}
+	}
+
+	private dispatchEvent(): void {
+		this.lastEventId = this.idBuffer;
+		if (this.data === "") {
+			this.eventType = "";
+			return;
+		}
+		const data = this.data.slice(0, -1);
+		const type = this.eventType || "message";
+		this.data = "";
+		this.eventType = "";
+		this.dispatch(type, data, this.lastEventId);
+	}
+}
+
+/**
+ * An `EventSource` (Server-Sent Events) client that can run through any proxy
+ * `fetch` supports. `fetch` reads a whole body before resolving, which never
+ * happens on an event stream, so this client keeps its own connection open
+ * and parses events as the bytes arrive.
+ *
+ * It reconnects after the stream ends or the connection drops, waiting the
+ * server's `retry:` interval (3 seconds until one is sent) and sending
+ * `Last-Event-ID` so the server can resume. A response that is not a
+ * `200 text/event-stream` closes it for good.
+ *
+ * @example
+ * ```ts
+ * const events = new EventSource("https://feed.example.com/updates", {
+ *   proxy: "socks5://127.0.0.1:1080",
+ * });
+ * events.addEventListener("price", (event) => console.log(event.data));
+ * ```
+ */
+export class EventSource extends EventTarget {
+	static readonly CONNECTING = 0;
+	static readonly OPEN = 1;
+	static readonly CLOSED = 2;
+	readonly CONNECTING = 0;
+	readonly OPEN = 1;
+	readonly CLOSED = 2;
+
+	readonly url: string;
+	readonly withCredentials: boolean;
+	readyState = 0;
+
+	onopen: ((this: EventSource, event: Event) => unknown) | null = null;
+	onmessage: ((this: EventSource, event: MessageEvent) => unknown) | null =
+		null;
+	onerror: ((this: EventSource, event: Event) => unknown) | null = null;
+
+	private options: EventSourceOptions;
+	private socket: net.Socket | null = null;
+	private controller: AbortController | null = null;
+	private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	private reconnectionTime = 3000;
+	private parser = new EventStreamParser(
+		(type, data, lastEventId) =>
+			this.fire(
+				type,
+				new MessageEvent(type, { data, lastEventId, origin: this.origin }),
+			),
+		(ms) => {
+			this.reconnectionTime = ms;
+		},
+	);
+	private origin: string;
+
+	constructor(url: string | URL, options: EventSourceOptions = {}) {
+		super();
+		let target: URL;
+		try {
+			target = new URL(url);
+		} catch {
+			throw new DOMException(`Invalid EventSource URL: ${url}`, "SyntaxError");
+		}
+		if (target.protocol !== "http:" && target.protocol !== "https:") {
+			throw new DOMException(
+				`EventSource URL must use http: or https:, got ${target.protocol}`,
+				"SyntaxError",
+			);
+		}
+		this.url = target.href;
+		this.origin = target.origin;
+		this.withCredentials = options.withCredentials ?? false;
+		this.options = options;
+		this.connect();
+	}
+
+	/** Stop the stream; no further events or reconnections. */
+	close(): void {
+		this.readyState = EventSource.CLOSED;
+		if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+		this.reconnectTimer = null;
+		this.controller?.abort();
+		this.socket?.destroy();
+	}
+
+	private connect(): void {
+		this.controller = new AbortController();
+		this.open(new URL(this.url), this.controller.signal).catch((err) => {
+			this.socket?.destroy();
+			if (this.readyState === EventSource.CLOSED) return;
+			if (err instanceof StreamRejectedError) this.failPermanently(err);
+			else this.scheduleReconnect(err);
+		});
+	}
+
+	/** Request the stream, following redirects, then read events until it ends. */
+	private async open(url: URL, signal: AbortSignal): Promise<void> {
+		const timeout = this.options.timeout ?? 30000;
+		// Credentials are dropped for good once a redirect leaves the origin.
+		let sourceHeaders: HeadersInit | undefined = this.options.headers;
+		for (let redirects = 0; ; redirects++) {
+			const secure = url.protocol === "https:";
+			const socket = (await dialTarget({
+				host: url.hostname.replace(/^\[|\]$/g, ""),
+				port: url.port ? Number(url.port) : secure ? 443 : 80,
+				proxy: this.options.proxy,
+				tls: secure ? (this.options.tls ?? true) : false,
+				signal,
+				timeout,
+			})) as net.Socket;
+			this.socket = socket;
+			if (signal.aborted) {
+				socket.destroy();
+				return;
+			}
+
+			const headers = new Headers(sourceHeaders);
+			headers.set("Host", url.host);
+			headers.set("Accept", "text/event-stream");
+			headers.set("Cache-Control", "no-cache");
+			if (this.parser.lastEventId) {
+				headers.set("Last-Event-ID", this.parser.lastEventId);
+			}
+			let head = `GET ${url.pathname}${url.search} HTTP/1.1\r\n`;
+			headers.forEach((value, name) => {
+				head += `${name}: ${value}\r\n`;
+			});
+			socket.write(`${head}\r\n`);
+			const response = await readResponseHead(socket, timeout, signal);
+
+			const location = response.headers.get("location");
+			if ([301, 302, 303, 307, 308].includes(response.status) && location) {
+				socket.destroy();
+				if (redirects >= MAX_REDIRECTS) {
+					throw new StreamRejectedError("Too many redirects");
+				}
+				const next = new URL(location, url);
+				if (next.protocol !== "http:" && next.protocol !== "https:") {
+					throw new StreamRejectedError(
+						`Refusing redirect to ${next.protocol} URL`,
+					);
+				}
+				sourceHeaders = buildRedirectHeaders(
+					sourceHeaders,
+					url,
+					next.origin !== url.origin,
+				);
+				url = next;
+				continue;
+			}
+			const contentType = response.headers.get("content-type") ?? "";
+			if (response.status !== 200) {
+				socket.destroy();
+				throw new StreamRejectedError(
+					`Unexpected server response: ${response.status}`,
+				);
+			}
+			if (
+				contentType.split(";")[0]?.trim().toLowerCase() !== "text/event-stream"
+			) {
+				socket.destroy();
+				throw new StreamRejectedError(
+					`Expected text/event-stream, got ${contentType || "no content type"}`,
+				);
+			}
+
+			this.readyState = EventSource.OPEN;
+			this.fire("open", new Event("open"));
+			return this.readStream(socket, response);
+		}
+	}
+
+	/**
+	 * Feed the body to the parser as it arrives. The stream is never done from
+	 * our side, so this rejects when it ends and the caller reconnects.
+	 */
+	private readStream(
+		socket: net.Socket,
+		response: ResponseHead,
+	): Promise<never> {
+		const mode = determineBodyMode("GET", 200, response.headers);
+		const chunked = mode.mode === "chunked" ? new ChunkedDecoder() : null;
+		let remaining =
+			mode.mode === "length" ? mode.length : Number.POSITIVE_INFINITY;
+		// Decodes UTF-8 across chunk boundaries and drops a leading BOM.
+		const decoder = new TextDecoder();
+
+		return new Promise<never>((_, reject) => {
+			const text = (bytes: Uint8Array) => {
+				this.parser.feed(decoder.decode(bytes, { stream: true }));
+			};
+			const onData = (chunk: Buffer) => {
+				if (this.readyState === EventSource.CLOSED) return;
+				try {
+					if (chunked) {
+						chunked.feed(chunk);
+						for (const part of chunked.takeChunks()) text(part);
+						if (chunked.done) socket.destroy();
+					} else {
+						const part = chunk.subarray(0, remaining);
+						remaining -= part.length;
+						text(part);
+						if (remaining === 0) socket.destroy();
+					}
+				} catch (err) {
+					socket.destroy(err as Error);
+				}
+			};
+			let failure: Error | undefined;
+			socket.on("data", onData);
+			socket.on("error", (err) => {
+				failure = err;
+			});
+			socket.on("close", () => {
+				if (failure) reject(failure);
+				else reject(new Error("The event stream ended"));
+			});
+			if (response.rest.length > 0) onData(response.rest);
+		});
+	}
+
+	/** Announce the drop and try again after the reconnection time. */
+	private scheduleReconnect(error: Error): void {
+		this.socket = null;
+		this.parser.reset();
+		this.readyState = EventSource.CONNECTING;
+		this.fire(
+			"error",
+			new ErrorEvent("error", { error, message: error.message }),
+		);
+		if (this.readyState !== EventSource.CONNECTING) return;
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			if (this.readyState === EventSource.CONNECTING) this.connect();
+		}, this.reconnectionTime);
+	}
+
+	private failPermanently(error: Error): void {
+		this.socket = null;
+		this.readyState = EventSource.CLOSED;
+		this.fire(
+			"error",
+			new ErrorEvent("error", { error, message: error.message }),
+		);
+	}
+
+	/** Dispatch to listeners and the matching `on<type>` handler. */
+	private fire(type: string, event: Event): void {
+		this.dispatchEvent(event);
+		const handler = (this as unknown as Record<string, unknown>)[`on${type}`];
+		if (typeof handler === "function") handler.call(this, event);
+	}
+}
@@ -0,0 +1,124 @@
+import * as net from "node:net";
+import { ProxyConnectError } from "./errors";
+import { type DnsOptions, type ResolvedAddress, resolveAll } from "./lookup";
+
+/** RFC 8305 §8: the recommended Connection Attempt Delay. */
+export const DEFAULT_ATTEMPT_DELAY = 250;
+
+/** Which local end to connect from, and which remote family to use. */
+export interface LocalBinding {
+	/** Local IP address to connect from. */
+	localAddress?: string;
+	/** Local port to connect from. */
+	localPort?: number;
+	/** Only try remote addresses of this family; implied by `localAddress`. */
+	family?: 4 | 6;
+}
+
+/**
+ * Order addresses for connection attempts (RFC 8305 §4): alternate between
+ * the families, starting with the family of the resolver's first answer.
+ */
+export function interleaveAddresses(
+	addresses: ResolvedAddress[],
+): ResolvedAddress[] {
+	const first = addresses[0]?.family;
+	const preferred = addresses.filter((a) => a.family === first);
+	const other = addresses.filter((a) => a.family !== first);
+	const ordered: ResolvedAddress[] = [];
+	for (let i = 0; i < Math.max(preferred.length, other.length); i++) {
+		if (preferred[i]) ordered.push(preferred[i] as ResolvedAddress);
+		if (other[i]) ordered.push(other[i] as ResolvedAddress);
+	}
+	return ordered;
+}
+
+/**
+ * Connect to `host:port` trying every A and AAAA record, Happy Eyeballs style
+ * (RFC 8305): attempts start `attemptDelay` ms apart, or as soon as the
+ * previous one fails, and earlier attempts keep running. The first to connect
+ * wins and the rest are closed, so a dead address costs one attempt delay
+ * instead of a full connect timeout.
+ *
+ * `local` binds each attempt to a local address or port and limits the
+ * attempts to one address family; `dnsOptions` decides how `host` resolves.
+ *
+ * With more than one address, failure rejects with a `ProxyConnectError`
+ * that names every address tried and why it failed. DNS errors (`ENOTFOUND`)
+ * are passed through unchanged.
+ */
+export async function connectHappyEyeballs(
+	host: string,
+	port: number,
+	attemptDelay = DEFAULT_ATTEMPT_DELAY,
+	signal?: AbortSignal,
+	local: LocalBinding = {},
+	dnsOptions?: DnsOptions,
+): Promise<net.Socket> {
+	const family =
+		local.family ?? (net.isIP(local.localAddress ?? "") || undefined);
+	const addresses = interleaveAddresses(
+		await resolveAll(host, port, dnsOptions),
+	).filter((a) => family === undefined || a.family === family);
+	if (signal?.aborted) throw signal.reason || new Error("Request aborted");
+	if (addresses.length === 0) {
+		throw new Error(`${host} has no IPv${family} address to connect to`);
+	}
+
+	return new Promise((resolve, reject) => {
+		const pending = new Set<net.Socket>();
+		const failures: { address: string; error: Error }[] = [];
+		let next = 0;
+		let timer: ReturnType<typeof setTimeout> | null = null;
+		let settled = false;
+
+		const finish = () => {
+			settled = true;
+			if (timer) clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+		};
+		const onAbort = () => {
+			finish();
+			for (const socket of pending) socket.destroy();
+			reject(signal?.reason || new Error("Request aborted"));
+		};
+		const fail = () => {
+			finish();
+			if (failures.length === 1) reject(failures[0]?.error);
+			else reject(new ProxyConnectError(host, port, failures));
+		};
+
+		const attempt = () => {
+			if (timer) clearTimeout(timer);
+			timer = null;
+			const { address } = addresses[next++] as ResolvedAddress;
+			const socket = net.connect({
+				port,
+				host: address,
+				localAddress: local.localAddress,
+				localPort: local.localPort,
+			});
+			pending.add(socket);
+			socket.once("connect", () => {
+				if (settled) return;
+				pending.delete(socket);
+				finish();
+				socket.removeAllListeners("error");
+				for (const other of pending) other.destroy();
+				resolve(socket);
+			});
+			socket.once("error", (error) => {
+				pending.delete(socket);
+				socket.destroy();
+				if (settled) return;
+				failures.push({ address, error });
+				if (next < addresses.length) attempt();
+				else if (pending.size === 0) fail();
+			});
+			if (next < addresses.length) timer = setTimeout(attempt, attemptDelay);
+		};
+
+		signal?.addEventListener("abort", onAbort);
+		attempt();
+	});
+}
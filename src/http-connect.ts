@@ -0,0 +1,301 @@
+import * as net from "node:net";
+import type { HeadersInit } from "bun";
+import { buildDigestAuthorization, parseDigestChallenge } from "./digest";
+import { dialProxy, openProxySocket, type ProxyEndpoint } from "./proxy-tls";
+import { armTimeout, DEFAULT_TIMEOUTS } from "./timeouts";
+
+/** Proxy fields an HTTP CONNECT tunnel needs (subset of `parseProxyUrl`). */
+export interface HttpProxyConfig extends ProxyEndpoint {
+	user: string;
+	password: string;
+	/** `http` speaks plain TCP to the proxy, `https` wraps it in TLS first. */
+	protocol: string;
+}
+
+/** Largest CONNECT response head we are willing to buffer. */
+const MAX_RESPONSE_HEAD = 16 * 1024;
+
+/**
+ * Open a connection to an HTTP(S) proxy (TLS for `https://` proxies) and
+ * resolve once it is usable, e.g. for absolute-form forwarding.
+ */
+export function openHttpProxyConnection(
+	config: HttpProxyConfig,
+	signal?: AbortSignal,
+): Promise<net.Socket> {
+	return openProxySocket(config, "HTTP proxy", signal);
+}
+
+/** `Proxy-Authorization: Basic` value for the proxy URL's credentials. */
+export function basicProxyAuthorization(
+	config: HttpProxyConfig,
+): string | null {
+	if (!config.user && !config.password) return null;
+	const token = Buffer.from(`${config.user}:${config.password}`).toString(
+		"base64",
+	);
+	return `Basic ${token}`;
+}
+
+/**
+ * If a 407 carries a Digest challenge we can answer, return the
+ * `Proxy-Authorization` value for retrying `method uri`; otherwise null.
+ */
+export function answerProxyChallenge(
+	config: HttpProxyConfig,
+	proxyAuthenticate: string | null,
+	method: string,
+	uri: string,
+): string | null {
+	if (!proxyAuthenticate || (!config.user && !config.password)) return null;
+	const challenge = parseDigestChallenge(proxyAuthenticate);
+	if (!challenge) return null;
+	return buildDigestAuthorization(
+		challenge,
+		config.user,
+		config.password,
+		method,
+		uri,
+	);
+}
+
+/**
+ * Append `Proxy-Authorization` and the caller's proxy headers to a request
+ * head under construction. Host and Proxy-Authorization are ours to set.
+ */
+export function appendProxyHeaders(
+	head: string,
+	authorization: string | null,
+	headers?: HeadersInit,
+): string {
+	let out = head;
+	if (authorization) out += `Proxy-Authorization: ${authorization}\r\n`;
+	new Headers(headers).forEach((value, key) => {
+		if (key === "host" || key === "proxy-authorization") return;
+		out += `${key}: ${value}\r\n`;
+	});
+	return out;
+}
+
+interface ConnectResponse {
+	status: number;
+	statusText: string;
+	headers: Headers;
+	/** Bytes after the response (for a 2xx, the start of the tunnel). */
+	rest: Buffer;
+	/** The proxy left the connection open and we consumed the whole body. */
+	reusable: boolean;
+}
+
+/**
+ * Write a CONNECT request head to `socket` and read the proxy's response:
+ * the head, plus any Content-Length body on a non-2xx so the connection can
+ * carry a retry. Rejects if no full response arrives within `timeout` ms.
+ */
+function exchangeConnect(
+	socket: net.Socket,
+	head: string,
+	signal: AbortSignal | undefined,
+	timeout: number | undefined,
+): Promise<ConnectResponse> {
+	return new Promise((resolve, reject) => {
+		const abortHandler = () => {
+			cleanup();
+			socket.destroy();
+			reject(signal?.reason || new Error("Request aborted"));
+		};
+		if (signal) {
+			if (signal.aborted) {
+				socket.destroy();
+				reject(signal.reason || new Error("Request aborted"));
+				return;
+			}
+			signal.addEventListener("abort", abortHandler);
+		}
+
+		const cleanup = () => {
+			signal?.removeEventListener("abort", abortHandler);
+			socket.removeListener("data", onData);
+			socket.removeListener("error", onError);
+			socket.removeListener("close", onClose);
+			disarm();
+		};
+
+		const onError = (err: Error) => {
+			cleanup();
+			socket.destroy();
+			reject(err);
+		};
+
+		const onClose = () => {
+			cleanup();
+			reject(
+				new Error("HTTP proxy closed the connection before CONNECT completed"),
+			);
+		};
+
+		let buf: Buffer = Buffer.alloc(0);
+		let parsed: {
+			status: number;
+			statusText: string;
+			headers: Headers;
+		} | null = null;
+		let bodyStart = 0;
+		let bodyLength = 0;
+
+		const finish = () => {
+			cleanup();
+			const response = parsed as NonNullable<typeof parsed>;
+			const closing =
+				response.headers.get("connection")?.toLowerCase() === "close";
+			resolve({
+				...response,
+				rest: buf.subarray(bodyStart),
+				reusable: !closing && response.headers.has("content-length"),
+			});
+		};
+
+		const onData = (chunk: Buffer) => {
+			buf = buf.length === 0 ? chunk : Buffer.concat([buf, chunk]);
+			if (!parsed) {
+				const end = buf.indexOf("\r\n\r\n");
+				if (end === -1) {
+					if (buf.length > MAX_RESPONSE_HEAD) {
+						cleanup();
+						socket.destroy();
+						reject(new Error("HTTP CONNECT response head too large"));
+					}
+					return;
+				}
+				const [statusLine = "", ...lines] = buf
+					.subarray(0, end)
+					.toString("latin1")
+					.split("\r\n");
+				const match = /^HTTP\/1\.[01] (\d{3})(?: (.*))?$/.exec(statusLine);
+				if (!match) {
+					cleanup();
+					socket.destroy();
+					reject(new Error(`Invalid HTTP CONNECT response: ${statusLine}`));
+					return;
+				}
+				const headers = new Headers();
+				for (const line of lines) {
+					const colon = line.indexOf(":");
+					if (colon <= 0) continue;
+					headers.append(
+						line.slice(0, colon).trim(),
+						line.slice(colon + 1).trim(),
+					);
+				}
+				parsed = {
+					status: Number(match[1]),
+					statusText: match[2] ?? "",
+					headers,
+				};
+				bodyStart = end + 4;
+				// A 2xx to CONNECT has no body: everything after the head is tunnel.
+				if (parsed.status >= 200 && parsed.status < 300) {
+					finish();
+					return;
+				}
+				bodyLength = Number(headers.get("content-length") ?? 0) || 0;
+			}
+			if (buf.length - bodyStart >= bodyLength) {
+				bodyStart += bodyLength;
+				finish();
+			}
+		};
+
+		socket.on("data", onData);
+		socket.on("error", onError);
+		socket.on("close", onClose);
+		const disarm = armTimeout("handshake", timeout, (err) => {
+			cleanup();
+			socket.destroy();
+			reject(err);
+		});
+
+		socket.write(head);
+	});
+}
+
+/**
+ * Ask an HTTP(S) proxy to CONNECT to `targetHost:targetPort` and resolve with
+ * the tunneled socket once it answers 2xx.
+ *
+ * Credentials in the proxy URL are sent up front as Basic; if the proxy
+ * answers 407 with a Digest challenge instead, the request is repeated with a
+ * Digest response — on the same connection when the proxy kept it open, else
+ * on a new one. `headers` (e.g. vendor session headers) go on every CONNECT.
+ *
+ * With `via`, the proxy is reached through that socket instead of a new
+ * connection.
+ */
+export async function openHttpConnectTunnel(
+	config: HttpProxyConfig,
+	targetHost: string,
+	targetPort: number,
+	signal?: AbortSignal,
+	via?: net.Socket,
+	headers?: HeadersInit,
+): Promise<net.Socket> {
+	const authority = `${net.isIPv6(targetHost) ? `[${targetHost}]` : targetHost}:${targetPort}`;
+	const buildHead = (authorization: string | null) =>
+		`${appendProxyHeaders(
+			`CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n`,
+			authorization,
+			headers,
+		)}\r\n`;
+
+	const { handshake } = config.timeouts ?? DEFAULT_TIMEOUTS;
+	let socket = via
+		? dialProxy(config, via)
+		: await openHttpProxyConnection(config, signal);
+	try {
+		let response = await exchangeConnect(
+			socket,
+			buildHead(basicProxyAuthorization(config)),
+			signal,
+			handshake,
+		);
+
+		if (response.status === 407) {
+			const digest = answerProxyChallenge(
+				config,
+				response.headers.get("proxy-authenticate"),
+				"CONNECT",
+				authority,
+			);
+			if (digest) {
+				if (!response.reusable) {
+					if (via) {
+						throw new Error(
+							"HTTP proxy closed the connection after a Digest challenge",
+						);
+					}
+					socket.destroy();
+					socket = await openHttpProxyConnection(config, signal);
+				}
+				response = await exchangeConnect(
+					socket,
+					buildHead(digest),
+					signal,
+					handshake,
+				);
+			}
+		}
+
+		if (response.status < 200 || response.status >= 300) {
+			throw new Error(
+				`HTTP CONNECT failed: ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+			);
+		}
+
+		// Anything past the response head already belongs to the tunnel.
+		if (response.rest.length > 0) socket.unshift(response.rest);
+		return socket;
+	} catch (err) {
+		socket.destroy();
+		throw err;
+	}
+}
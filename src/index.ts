@@ -1,3 +1,48 @@
+export {
+	noAuthentication,
+	type Socks5AuthContext,
+	type Socks5AuthMethod,
+	usernamePasswordAuthentication,
+} from "./auth";
+export { bindSocks5, type Socks5Bind, type Socks5BindConnection } from "./bind";
+export {
+	type ConnectOptions,
+	connect,
+	ProxySocket,
+	type ProxySocketHandler,
+} from "./connect";
 export { convert } from "./convert";
-export { fetch } from "./fetch";
+export { type DohOptions, dohResolver } from "./doh";
+export {
+	ProxyChainError,
+	ProxyConnectError,
+	ProxyTimeoutError,
+	ProxyUnavailableError,
+	Socks5ReplyError,
+	StrictModeError,
+	type StrictModeViolation,
+	type TimeoutPhase,
+} from "./errors";
+export { EventSource, type EventSourceOptions } from "./eventsource";
+export {
+	type FallbackPolicy,
+	fetch,
+	type ProxyOptions,
+	setFallbackPolicy,
+} from "./fetch";
+export type { StreamIsolation } from "./isolation";
+export {
+	DnsCache,
+	type DnsOptions,
+	onLocalLookup,
+	type ResolvedAddress,
+	type Resolver,
+	systemResolver,
+} from "./lookup";
+export { bypassesProxy } from "./no-proxy";
 export { fetchPatch } from "./patch";
+export { type ProxyResolveOptions, resolve, reverse } from "./resolve";
+export type { Timeouts } from "./timeouts";
+export { type Socks5UdpRemoteInfo, Socks5UdpSocket, udpAssociate } from "./udp";
+export { type UpgradeOptions, type UpgradeResult, upgrade } from "./upgrade";
+export { WebSocket, type WebSocketOptions } from "./websocket";
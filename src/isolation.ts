@@ -0,0 +1,48 @@
+import { createHash, randomUUID } from "node:crypto";
+
+/**
+ * How to split traffic across Tor circuits. With `IsolateSOCKSAuth` (on by
+ * default for a Tor SocksPort) every distinct SOCKS username/password pair
+ * gets its own circuit, so each isolation key maps to one credential pair.
+ *
+ * - `request`: a fresh circuit for every request (connections are not pooled).
+ * - `origin`: one circuit per target origin (`scheme://host:port`).
+ * - `{ session }`: one circuit per named session, shared across origins.
+ * - a function: one circuit per key it returns for the target URL.
+ */
+export type StreamIsolation =
+	| "request"
+	| "origin"
+	| { session: string }
+	| ((target: URL) => string);
+
+/** Derive the isolation key for a request to `target`. */
+export function isolationKey(isolation: StreamIsolation, target: URL): string {
+	if (isolation === "request") return `request:${randomUUID()}`;
+	if (isolation === "origin") return `origin:${target.origin}`;
+	if (typeof isolation === "function") return `custom:${isolation(target)}`;
+	return `session:${isolation.session}`;
+}
+
+/**
+ * Replace the proxy URL's credentials with ones derived from `key`. The key is
+ * hashed so arbitrary (and arbitrarily long) keys fit the RFC 1929 limits and
+ * do not leak origins or session names to the proxy.
+ */
+export function applyIsolation(proxyUrl: string, key: string): string {
+	const url = new URL(proxyUrl);
+	url.username = "netbun";
+	url.password = createHash("sha256").update(key).digest("hex");
+	return url.toString();
+}
+
+/**
+ * Isolation works by choosing the SOCKS credentials, which custom `auth`
+ * methods would send in its place; refuse the pair rather than let every
+ * request share one circuit.
+ */
+export function checkIsolationAuth(auth: readonly unknown[] | undefined): void {
+	if (auth) {
+		throw new Error("Stream isolation cannot be combined with custom auth");
+	}
+}
@@ -0,0 +1,284 @@
+import * as dns from "node:dns";
+import * as net from "node:net";
+import type { DohOptions } from "./doh";
+import { StrictModeError } from "./errors";
+
+/**
+ * Which address family to use when a target hostname is resolved locally.
+ *
+ * - `ipv4first` (default): prefer A records, fall back to AAAA.
+ * - `ipv6first`: prefer AAAA records, fall back to A.
+ * - `ipv4only` / `ipv6only`: never use the other family.
+ */
+export type AddressFamilyPreference =
+	| "ipv4first"
+	| "ipv6first"
+	| "ipv4only"
+	| "ipv6only";
+
+/**
+ * Pick the address to use from a lookup result according to `family`.
+ * Returns null when no address satisfies the preference.
+ */
+export function pickAddress(
+	addresses: { address: string; family: number }[],
+	family: AddressFamilyPreference = "ipv4first",
+): string | null {
+	const v4 = addresses.find((a) => a.family === 4)?.address ?? null;
+	const v6 = addresses.find((a) => a.family === 6)?.address ?? null;
+	switch (family) {
+		case "ipv4only":
+			return v4;
+		case "ipv6only":
+			return v6;
+		case "ipv6first":
+			return v6 ?? v4;
+		default:
+			return v4 ?? v6;
+	}
+}
+
+/** An address found for a hostname. */
+export interface ResolvedAddress {
+	address: string;
+	/** 4 or 6. */
+	family: number;
+	/** Seconds the answer may be reused, if the resolver knows. */
+	ttl?: number;
+}
+
+/**
+ * Looks up every address of a hostname. Rejecting with an error whose `code`
+ * is `ENOTFOUND` marks the name as nonexistent.
+ */
+export type Resolver = (hostname: string) => Promise<ResolvedAddress[]>;
+
+/** How hostnames are turned into addresses, for targets and proxies alike. */
+export interface DnsOptions {
+	/** Lookup function to use instead of the OS resolver (`dns.lookup`). */
+	resolver?: Resolver;
+	/**
+	 * Cache answers for their TTL: `true` for the cache shared by all
+	 * requests, or a {@link DnsCache} of your own. Default: no caching.
+	 */
+	cache?: boolean | DnsCache;
+	/**
+	 * Fixed addresses, like curl's `--resolve`: `"host:port"` (or `"host"`
+	 * for any port) to an IP or a list of IPs. Pinned names are never looked
+	 * up, and pinned targets are connected to by address even when DNS is
+	 * otherwise left to the proxy.
+	 */
+	hosts?: Record<string, string | string[]>;
+	/**
+	 * Resolve targets with DNS-over-HTTPS through the proxy instead of on
+	 * the host network, when `resolveDnsLocally` is set. Answers are cached
+	 * (in the shared cache unless `cache` names another), and the proxy's
+	 * own hostname still goes to `resolver`.
+	 */
+	doh?: string | DohOptions;
+}
+
+/**
+ * Combine DNS settings, later layers winning option by option; `hosts` maps
+ * are merged entry by entry.
+ */
+export function mergeDnsOptions(
+	...layers: (DnsOptions | undefined)[]
+): DnsOptions | undefined {
+	const present = layers.filter((l): l is DnsOptions => l !== undefined);
+	if (present.length <= 1) return present[0];
+	return Object.assign({}, ...present, {
+		hosts: Object.assign({}, ...present.map((l) => l.hosts)),
+	});
+}
+
+const localLookupListeners = new Set<(hostname: string) => void>();
+
+/**
+ * Call `listener` with every hostname about to be looked up on the host's
+ * own network, including lookups that strict mode refuses and those that
+ * Bun's fetch or a direct socket makes on its own. Returns a function that
+ * removes the listener. Meant for tests asserting that nothing leaks past
+ * the proxy.
+ */
+export function onLocalLookup(
+	listener: (hostname: string) => void,
+): () => void {
+	localLookupListeners.add(listener);
+	return () => {
+		localLookupListeners.delete(listener);
+	};
+}
+
+function reportLocalLookup(hostname: string): void {
+	for (const listener of localLookupListeners) listener(hostname);
+}
+
+/**
+ * Report the lookup that native fetch or `net.connect` is about to make for
+ * `host` outside any {@link Resolver}. IP literals need none.
+ */
+export function reportNativeLookup(host: string): void {
+	const name = host.replace(/^\[(.*)\]$/, "$1");
+	if (net.isIP(name) === 0) reportLocalLookup(name);
+}
+
+/** The OS resolver: `dns.lookup`, which also reads the hosts file. */
+export function systemResolver(hostname: string): Promise<ResolvedAddress[]> {
+	reportLocalLookup(hostname);
+	return new Promise((resolve, reject) => {
+		dns.lookup(hostname, { all: true }, (err, addresses) => {
+			if (err) reject(err);
+			else resolve(addresses);
+		});
+	});
+}
+
+/** The resolver of strict mode, which refuses every lookup it is asked for. */
+export async function refuseLocalLookup(
+	hostname: string,
+): Promise<ResolvedAddress[]> {
+	reportLocalLookup(hostname);
+	throw new StrictModeError(
+		"localLookup",
+		`refusing to look up ${hostname} outside the proxy; use an IP address or pin it in dns.hosts`,
+	);
+}
+
+/**
+ * Remembers resolver answers for as long as their TTL allows, so repeated
+ * requests to the same target or proxy skip the lookup. Answers without a TTL
+ * (the OS resolver gives none) are kept for `defaultTtl` seconds; failures
+ * and empty answers are not cached. Concurrent lookups of one name share a single query.
+ */
+export class DnsCache {
+	private entries = new Map<
+		Resolver,
+		Map<string, { expires: number; answer: Promise<ResolvedAddress[]> }>
+	>();
+	private defaultTtl: number;
+	private maxTtl: number;
+
+	constructor(options?: { defaultTtl?: number; maxTtl?: number }) {
+		this.defaultTtl = options?.defaultTtl ?? 60;
+		this.maxTtl = options?.maxTtl ?? 3600;
+	}
+
+	/** The cached answer for `hostname`, or a fresh one from `resolver`. */
+	lookup(hostname: string, resolver: Resolver): Promise<ResolvedAddress[]> {
+		let byName = this.entries.get(resolver);
+		if (!byName) {
+			byName = new Map();
+			this.entries.set(resolver, byName);
+		}
+		const key = hostname.toLowerCase();
+		const cached = byName.get(key);
+		if (cached && cached.expires > Date.now()) return cached.answer;
+
+		const entry = {
+			expires: Number.POSITIVE_INFINITY,
+			answer: resolver(hostname),
+		};
+		byName.set(key, entry);
+		entry.answer.then(
+			(addresses) => {
+				// An empty answer is treated like a failure: asked again next time.
+				if (addresses.length === 0) {
+					if (byName.get(key) === entry) byName.delete(key);
+					return;
+				}
+				const ttls = addresses.map((a) => a.ttl ?? this.defaultTtl);
+				const ttl = Math.min(this.maxTtl, ...ttls);
+				entry.expires = Date.now() + ttl * 1000;
+			},
+			() => {
+				if (byName.get(key) === entry) byName.delete(key);
+			},
+		);
+		return entry.answer;
+	}
+
+	/** Forget every cached answer. */
+	clear(): void {
+		this.entries.clear();
+	}
+}
+
+/** The cache behind `dns: { cache: true }`. */
+export const globalDnsCache = new DnsCache();
+
+/** Addresses `hosts` pins for `host:port` (or `host` alone), if any. */
+export function pinnedAddresses(
+	hosts: DnsOptions["hosts"],
+	host: string,
+	port: number,
+): ResolvedAddress[] | null {
+	if (!hosts) return null;
+	const name = host.toLowerCase();
+	const pinned = hosts[`${name}:${port}`] ?? hosts[name];
+	if (pinned === undefined) return null;
+	return (Array.isArray(pinned) ? pinned : [pinned]).map((address) => {
+		const family = net.isIP(address);
+		if (family === 0) {
+			throw new Error(`Invalid address pinned for ${host}: ${address}`);
+		}
+		return { address, family };
+	});
+}
+
+/**
+ * Every address for `host`, honouring `options`: IP literals as they are,
+ * then pinned `hosts`, then the (possibly cached) resolver.
+ */
+export async function resolveAll(
+	host: string,
+	port: number,
+	options?: DnsOptions,
+): Promise<ResolvedAddress[]> {
+	const literal = net.isIP(host);
+	if (literal !== 0) return [{ address: host, family: literal }];
+	const pinned = pinnedAddresses(options?.hosts, host, port);
+	if (pinned) return pinned;
+
+	const resolver = options?.resolver ?? systemResolver;
+	const cache =
+		options?.cache === true ? globalDnsCache : options?.cache || null;
+	const addresses = await (cache
+		? cache.lookup(host, resolver)
+		: resolver(host));
+	if (addresses.length === 0) {
+		throw Object.assign(new Error(`No addresses found for ${host}`), {
+			code: "ENOTFOUND",
+		});
+	}
+	return addresses;
+}
+
+/**
+ * Resolve `host`, honouring the family preference and `dnsOptions` (`port`
+ * selects pinned `hosts` entries). IP literals are returned as-is, provided
+ * they match an `*only` preference.
+ */
+export async function lookupAddress(
+	host: string,
+	family: AddressFamilyPreference = "ipv4first",
+	dnsOptions?: DnsOptions,
+	port = 0,
+): Promise<string> {
+	const literal = net.isIP(host);
+	if (literal !== 0) {
+		if (
+			(family === "ipv4only" && literal !== 4) ||
+			(family === "ipv6only" && literal !== 6)
+		) {
+			throw new Error(`Address ${host} does not match family "${family}"`);
+		}
+		return host;
+	}
+
+	const address = pickAddress(await resolveAll(host, port, dnsOptions), family);
+	if (!address) {
+		throw new Error(`No address for ${host} matches family "${family}"`);
+	}
+	return address;
+}
@@ -0,0 +1,140 @@
+import * as net from "node:net";
+import { ipToBigInt } from "./source-address";
+
+/** One parsed `NO_PROXY` entry. `port` limits it to that port when set. */
+type BypassRule =
+	| { kind: "all" }
+	| { kind: "domain"; name: string; port?: number }
+	| { kind: "block"; family: 4 | 6; network: bigint; prefix: bigint };
+
+const DEFAULT_PORTS: Record<string, number> = {
+	"http:": 80,
+	"ws:": 80,
+	"https:": 443,
+	"wss:": 443,
+};
+
+/** Lower-case `host`, without brackets, a trailing dot or IPv6 zero runs. */
+function canonicalHost(host: string): string {
+	const bare = host
+		.replace(/^\[|\]$/g, "")
+		.replace(/\.$/, "")
+		.toLowerCase();
+	// Let URL produce the compressed IPv6 form
+	return net.isIPv6(bare)
+		? new URL(`http://[${bare}]/`).hostname.slice(1, -1)
+		: bare;
+}
+
+/** Parse one entry; `null` for one that cannot match anything. */
+function parseRule(entry: string): BypassRule | null {
+	if (entry === "*") return { kind: "all" };
+
+	const slash = entry.indexOf("/");
+	if (slash !== -1) {
+		const ip = entry.slice(0, slash);
+		const prefixText = entry.slice(slash + 1);
+		const family = net.isIP(ip);
+		const bits = family === 4 ? 32n : 128n;
+		const prefix = /^\d+$/.test(prefixText) ? BigInt(prefixText) : -1n;
+		if (family === 0 || prefix < 0n || prefix > bits) return null;
+		const hostBits = bits - prefix;
+		return {
+			kind: "block",
+			family: family as 4 | 6,
+			network: (ipToBigInt(ip) >> hostBits) << hostBits,
+			prefix,
+		};
+	}
+
+	// A bare IPv6 address has colons but no port; `[::1]:8080` has both.
+	let host = entry;
+	let port: number | undefined;
+	const bracketed = /^\[([^\]]+)\](?::(\d+))?$/.exec(entry);
+	if (bracketed) {
+		host = bracketed[1] as string;
+		port = bracketed[2] === undefined ? undefined : Number(bracketed[2]);
+	} else if (!net.isIPv6(entry)) {
+		const hostPort = /^(.*):(\d+)$/.exec(entry);
+		if (hostPort) {
+			host = hostPort[1] as string;
+			port = Number(hostPort[2]);
+		}
+	}
+	if (net.isIP(host) && port === undefined) {
+		const family = net.isIP(host) as 4 | 6;
+		return {
+			kind: "block",
+			family,
+			network: ipToBigInt(host),
+			prefix: family === 4 ? 32n : 128n,
+		};
+	}
+	// `.example.com` and `*.example.com` mean the same as `example.com`.
+	const name = canonicalHost(host.replace(/^\*?\./, ""));
+	return name ? { kind: "domain", name, port } : null;
+}
+
+/**
+ * Parse a bypass list: entries separated by commas or whitespace, as in the
+ * `NO_PROXY` environment variable. Malformed entries are dropped, as curl
+ * and Go do, which leaves those hosts on the proxy.
+ */
+function parseBypass(bypass: string | string[]): BypassRule[] {
+	return (Array.isArray(bypass) ? bypass : [bypass])
+		.flatMap((entry) => entry.split(/[\s,]+/))
+		.filter(Boolean)
+		.map((entry) => parseRule(entry.toLowerCase()))
+		.filter((rule): rule is BypassRule => rule !== null);
+}
+
+function matches(rule: BypassRule, host: string, port: number): boolean {
+	switch (rule.kind) {
+		case "all":
+			return true;
+		case "block": {
+			if (net.isIP(host) !== rule.family) return false;
+			const hostBits = (rule.family === 4 ? 32n : 128n) - rule.prefix;
+			return (ipToBigInt(host) >> hostBits) << hostBits === rule.network;
+		}
+		case "domain":
+			if (rule.port !== undefined && rule.port !== port) return false;
+			if (host === rule.name) return true;
+			return !net.isIP(host) && host.endsWith(`.${rule.name}`);
+	}
+}
+
+/**
+ * Whether `host:port` should skip the proxy according to `bypass`, which has
+ * the curl/Go `NO_PROXY` syntax:
+ *
+ * - `*` matches every host.
+ * - A domain matches itself and its subdomains; a leading `.` or `*.` is
+ *   ignored, so `.example.com` also matches `example.com`.
+ * - `host:port` (or `[ipv6]:port`) matches that host on that port only.
+ * - An IP address or CIDR block (`10.0.0.0/8`, `fd00::/8`) matches targets
+ *   given as an address in it. Names are not resolved to check them.
+ */
+export function bypassesProxy(
+	host: string,
+	port: number,
+	bypass: string | string[] | undefined,
+): boolean {
+	if (!bypass) return false;
+	const target = canonicalHost(host);
+	return parseBypass(bypass).some((rule) => matches(rule, target, port));
+}
+
+/** {@link bypassesProxy} for a URL, using its scheme's default port. */
+export function bypassesProxyForUrl(
+	url: URL,
+	bypass: string | string[] | undefined,
+): boolean {
+	const port = url.port ? Number(url.port) : (DEFAULT_PORTS[url.protocol] ?? 0);
+	return bypassesProxy(url.hostname, port, bypass);
+}
+
+/** The `NO_PROXY` (or `no_proxy`) environment variable. */
+export function noProxyFromEnv(): string | undefined {
+	return process.env.NO_PROXY || process.env.no_proxy;
+}
@@ -0,0 +1,107 @@
+import * as net from "node:net";
+import * as tls from "node:tls";
+import { connectHappyEyeballs, type LocalBinding } from "./happy-eyeballs";
+import type { DnsOptions } from "./lookup";
+import { armTimeout, DEFAULT_TIMEOUTS, type Timeouts } from "./timeouts";
+
+/** Where a proxy listens and whether it sits behind TLS. */
+export interface ProxyEndpoint {
+	host: string;
+	port: number;
+	/** `https` and `socks5+tls` proxies are reached over TLS. */
+	protocol?: string;
+	/** TLS options for the connection to the proxy itself (not the target). */
+	tls?: tls.ConnectionOptions;
+	/** Happy Eyeballs delay between attempts to the proxy's addresses, in ms. */
+	attemptDelay?: number;
+	/** Phase limits; `connect` and `tls` apply here, `handshake` to the protocol. */
+	timeouts?: Timeouts;
+	/** Local address, port and family for the connection to the proxy. */
+	local?: LocalBinding;
+	/** How the proxy's hostname is resolved. */
+	dns?: DnsOptions;
+}
+
+/** True if the proxy URL scheme calls for TLS to the proxy. */
+export function isTlsProxy(protocol: string | undefined): boolean {
+	return protocol === "https" || protocol === "socks5+tls";
+}
+
+/**
+ * Reach the proxy through `via`, a tunnel from an earlier hop, wrapping it in
+ * TLS for `https://` and `socks5+tls://` proxies. Writes made before the
+ * handshake completes are buffered.
+ */
+export function dialProxy(config: ProxyEndpoint, via: net.Socket): net.Socket {
+	if (!isTlsProxy(config.protocol)) return via;
+	return tls.connect({
+		socket: via,
+		servername: net.isIP(config.host) ? undefined : config.host,
+		...config.tls,
+	});
+}
+
+/**
+ * Open a connection to the proxy and resolve once it is usable: TCP to the
+ * first of its addresses to answer (Happy Eyeballs), then TLS for TLS
+ * proxies. Rejects on DNS failure, when the `connect` or `tls` phase of
+ * `config.timeouts` runs out, or when `signal` aborts. `label` names the
+ * proxy kind in the not-found error.
+ */
+export async function openProxySocket(
+	config: ProxyEndpoint,
+	label: string,
+	signal?: AbortSignal,
+): Promise<net.Socket> {
+	const timeouts = config.timeouts ?? DEFAULT_TIMEOUTS;
+	const deadline = new AbortController();
+	const disarm = armTimeout("connect", timeouts.connect, (err) =>
+		deadline.abort(err),
+	);
+	let socket: net.Socket;
+	try {
+		socket = await connectHappyEyeballs(
+			config.host,
+			config.port,
+			config.attemptDelay,
+			signal ? AbortSignal.any([signal, deadline.signal]) : deadline.signal,
+			config.local,
+			config.dns,
+		);
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code === "ENOTFOUND") {
+			throw new Error(`${label} host not found: ${config.host}`);
+		}
+		throw err;
+	} finally {
+		disarm();
+	}
+	if (!isTlsProxy(config.protocol)) return socket;
+
+	return new Promise<net.Socket>((resolve, reject) => {
+		const secure = dialProxy(config, socket);
+		const fail = (err: Error) => {
+			done();
+			secure.destroy();
+			socket.destroy();
+			reject(err);
+		};
+		const onAbort = () => fail(signal?.reason || new Error("Request aborted"));
+		const disarmTls = armTimeout("tls", timeouts.tls, fail);
+		const done = () => {
+			disarmTls();
+			signal?.removeEventListener("abort", onAbort);
+		};
+		if (signal?.aborted) {
+			onAbort();
+			return;
+		}
+		signal?.addEventListener("abort", onAbort);
+		secure.once("error", fail);
+		secure.once("secureConnect", () => {
+			done();
+			secure.removeListener("error", fail);
+			resolve(secure);
+		});
+	});
+}
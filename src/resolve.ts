@@ -0,0 +1,113 @@
+import * as net from "node:net";
+import type { Socks5AuthMethod } from "./auth";
+import { convert } from "./convert";
+import { Socks5ReplyError } from "./errors";
+import { parseProxyUrl } from "./fetch";
+import {
+	connectToProxy,
+	negotiateSocks5,
+	SOCKS5_CMD_RESOLVE,
+	SOCKS5_CMD_RESOLVE_PTR,
+	Socks5Reader,
+	sendSocks5Request,
+	socks5AuthMethods,
+} from "./socks5";
+import { armTimeout, resolveTimeouts, type Timeouts } from "./timeouts";
+
+/** Options for {@link resolve} and {@link reverse}. */
+export interface ProxyResolveOptions {
+	/** SOCKS5 proxy that performs the lookup; must implement Tor's extensions. */
+	proxy: string;
+	signal?: AbortSignal;
+	auth?: Socks5AuthMethod[];
+	/** Limits for connecting to the proxy and for the lookup's handshake. */
+	timeouts?: Timeouts;
+}
+
+/**
+ * Run one Tor lookup command and return the address the proxy put in
+ * BND.ADDR. The connection is closed afterwards; Tor answers each lookup on
+ * its own connection.
+ */
+async function lookupViaProxy(
+	cmd: number,
+	host: string,
+	options: ProxyResolveOptions,
+): Promise<string> {
+	const config = {
+		...parseProxyUrl(convert(options.proxy)),
+		auth: options.auth,
+		timeouts: resolveTimeouts(options.timeouts),
+	};
+	const name = cmd === SOCKS5_CMD_RESOLVE ? "RESOLVE" : "RESOLVE_PTR";
+	if (config.protocol !== "socks5" && config.protocol !== "socks5+tls") {
+		throw new Error(`${name} requires a SOCKS5 proxy, got ${config.protocol}`);
+	}
+
+	socks5AuthMethods(config);
+	const signal = options.signal;
+	const socket = await connectToProxy(config, signal);
+	const abortHandler = () => {
+		socket.destroy(signal?.reason || new Error("Request aborted"));
+	};
+	signal?.addEventListener("abort", abortHandler);
+	const disarm = armTimeout("handshake", config.timeouts.handshake, (err) =>
+		socket.destroy(err),
+	);
+
+	const reader = new Socks5Reader(socket);
+	try {
+		await negotiateSocks5(reader, config);
+		const answer = await sendSocks5Request(reader, config, cmd, {
+			host,
+			port: 0,
+		});
+		return answer.host;
+	} catch (err) {
+		if (err instanceof Socks5ReplyError && err.code === 0x07) {
+			throw new Error(
+				`Proxy ${err.proxy} does not support ${name} (Tor SOCKS extension 0x${cmd.toString(16)})`,
+				{ cause: err },
+			);
+		}
+		throw err;
+	} finally {
+		disarm();
+		reader.release();
+		socket.destroy();
+		signal?.removeEventListener("abort", abortHandler);
+	}
+}
+
+/**
+ * Resolve `host` through the proxy with Tor's RESOLVE command (0xF0), so the
+ * name never touches local DNS. Tor answers with a single address, returned
+ * in an array for parity with `dns.promises.resolve`.
+ *
+ * @example
+ * ```ts
+ * const [ip] = await resolve("example.com", { proxy: "socks5h://127.0.0.1:9050" });
+ * ```
+ */
+export async function resolve(
+	host: string,
+	options: ProxyResolveOptions,
+): Promise<string[]> {
+	if (net.isIP(host) !== 0) return [host];
+	return [await lookupViaProxy(SOCKS5_CMD_RESOLVE, host, options)];
+}
+
+/**
+ * Reverse-resolve an IPv4 or IPv6 address through the proxy with Tor's
+ * RESOLVE_PTR command (0xF1). Returns the hostname in an array, like
+ * `dns.promises.reverse`.
+ */
+export async function reverse(
+	ip: string,
+	options: ProxyResolveOptions,
+): Promise<string[]> {
+	if (net.isIP(ip) === 0) {
+		throw new Error(`reverse() expects an IP address, got "${ip}"`);
+	}
+	return [await lookupViaProxy(SOCKS5_CMD_RESOLVE_PTR, ip, options)];
+}
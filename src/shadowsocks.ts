@@ -0,0 +1,455 @@
+import {
+	type CipherGCMTypes,
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	getCiphers,
+	hkdfSync,
+	randomBytes,
+} from "node:crypto";
+import type * as net from "node:net";
+import { Duplex } from "node:stream";
+import type { LocalBinding } from "./happy-eyeballs";
+import type { DnsOptions } from "./lookup";
+import { openProxySocket } from "./proxy-tls";
+import { encodeSocks5Address } from "./socks5";
+import type { Timeouts } from "./timeouts";
+
+/** Proxy fields a Shadowsocks tunnel needs (subset of `parseProxyUrl`). */
+export interface ShadowsocksConfig {
+	host: string;
+	port: number;
+	/** Cipher name; SIP002 URLs carry it where other proxies have the user. */
+	user: string;
+	password: string;
+	/** Happy Eyeballs delay between attempts to the server's addresses, in ms. */
+	attemptDelay?: number;
+	/** Phase limits; only `connect` applies, as Shadowsocks has no handshake. */
+	timeouts?: Timeouts;
+	/** Local address, port and family for the connection to the server. */
+	local?: LocalBinding;
+	/** How the server's hostname is resolved. */
+	dns?: DnsOptions;
+}
+
+interface ShadowsocksCipher {
+	/** Key length in bytes; the per-session salt has the same length. */
+	keyLength: number;
+	/** Name of the AEAD construction in `node:crypto`. */
+	algorithm: string;
+}
+
+/** AEAD ciphers from SIP004, by their Shadowsocks names. */
+const SHADOWSOCKS_CIPHERS = new Map<string, ShadowsocksCipher>([
+	["aes-128-gcm", { keyLength: 16, algorithm: "aes-128-gcm" }],
+	["aes-256-gcm", { keyLength: 32, algorithm: "aes-256-gcm" }],
+	["chacha20-ietf-poly1305", { keyLength: 32, algorithm: "chacha20-poly1305" }],
+]);
+
+/** Largest payload a single AEAD chunk may carry. */
+const MAX_CHUNK_PAYLOAD = 0x3fff;
+const TAG_LENGTH = 16;
+
+function lookupCipher(method: string): ShadowsocksCipher {
+	const cipher = SHADOWSOCKS_CIPHERS.get(method.toLowerCase());
+	if (!cipher) {
+		throw new Error(
+			`Unsupported Shadowsocks cipher: ${method}. Supported ciphers: ${[...SHADOWSOCKS_CIPHERS.keys()].join(", ")}.`,
+		);
+	}
+	return cipher;
+}
+
+/**
+ * Split Shadowsocks userinfo into cipher and password. SIP002 encodes it as
+ * base64url(`method:password`); plain percent-encoded `method:password` is
+ * accepted as well.
+ */
+export function decodeShadowsocksUserinfo(userinfo: string): {
+	method: string;
+	password: string;
+} {
+	let decoded = decodeURIComponent(userinfo);
+	if (!decoded.includes(":")) {
+		decoded = Buffer.from(decoded, "base64").toString("utf8");
+	}
+	const colon = decoded.indexOf(":");
+	if (colon <= 0) {
+		throw new Error("Shadowsocks URL must carry method:password");
+	}
+	return {
+		method: decoded.slice(0, colon),
+		password: decoded.slice(colon + 1),
+	};
+}
+
+/**
+ * Rewrite an `ss://` URL, either SIP002 (`ss://base64(method:password)@host:port`)
+ * or the legacy fully-encoded `ss://base64(method:password@host:port)`, into
+ * the standard `ss://method:password@host:port`. The `#tag` is dropped;
+ * SIP003 plugins are not supported.
+ */
+export function normalizeShadowsocksUrl(proxyUrl: string): string {
+	let rest = proxyUrl.slice("ss://".length);
+	const hash = rest.indexOf("#");
+	if (hash !== -1) rest = rest.slice(0, hash);
+	const query = rest.indexOf("?");
+	if (query !== -1) {
+		if (new URLSearchParams(rest.slice(query + 1)).has("plugin")) {
+			throw new Error("Shadowsocks plugins are not supported");
+		}
+		rest = rest.slice(0, query);
+	}
+	if (rest.endsWith("/")) rest = rest.slice(0, -1);
+
+	let at = rest.lastIndexOf("@");
+	if (at === -1) {
+		rest = Buffer.from(decodeURIComponent(rest), "base64").toString("utf8");
+		at = rest.lastIndexOf("@");
+		if (at === -1) throw new Error("Shadowsocks URL has no server address");
+	}
+	const { method, password } = decodeShadowsocksUserinfo(rest.slice(0, at));
+	lookupCipher(method);
+	const hostPort = rest.slice(at + 1);
+	if (!/:\d+$/.test(hostPort)) {
+		throw new Error("Shadowsocks URL must include the server port");
+	}
+	return `ss://${encodeURIComponent(method.toLowerCase())}:${encodeURIComponent(password)}@${hostPort}`;
+}
+
+/** OpenSSL's EVP_BytesToKey with MD5 and no salt: the Shadowsocks master key. */
+function deriveMasterKey(password: string, keyLength: number): Buffer {
+	const blocks: Buffer[] = [];
+	let prev: Buffer = Buffer.alloc(0);
+	let length = 0;
+	while (length < keyLength) {
+		prev = createHash("md5")
+			.update(Buffer.concat([prev, Buffer.from(password)]))
+			.digest();
+		blocks.push(prev);
+		length += prev.length;
+	}
+	return Buffer.concat(blocks).subarray(0, keyLength);
+}
+
+/**
+ * One direction of an AEAD session: a subkey derived from the master key and
+ * salt, and a little-endian nonce counter bumped after every seal/open.
+ */
+class AeadSession {
+	private key: Buffer;
+	private nonce = Buffer.alloc(12);
+
+	constructor(
+		private cipher: ShadowsocksCipher,
+		masterKey: Buffer,
+		salt: Buffer,
+	) {
+		this.key = Buffer.from(
+			hkdfSync("sha1", masterKey, salt, "ss-subkey", cipher.keyLength),
+		);
+	}
+
+	private bumpNonce(): void {
+		for (let i = 0; i < this.nonce.length; i++) {
+			this.nonce[i] = ((this.nonce[i] as number) + 1) & 0xff;
+			if (this.nonce[i] !== 0) break;
+		}
+	}
+
+	seal(plaintext: Buffer): Buffer {
+		const c = createCipheriv(
+			this.cipher.algorithm as CipherGCMTypes,
+			this.key,
+			this.nonce,
+			{ authTagLength: TAG_LENGTH },
+		);
+		const out = Buffer.concat([c.update(plaintext), c.final(), c.getAuthTag()]);
+		this.bumpNonce();
+		return out;
+	}
+
+	/** Decrypt `sealed` (ciphertext + tag), or return null if it fails to authenticate. */
+	open(sealed: Buffer): Buffer | null {
+		const d = createDecipheriv(
+			this.cipher.algorithm as CipherGCMTypes,
+			this.key,
+			this.nonce,
+			{ authTagLength: TAG_LENGTH },
+		);
+		d.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+		try {
+			const out = Buffer.concat([
+				d.update(sealed.subarray(0, sealed.length - TAG_LENGTH)),
+				d.final(),
+			]);
+			this.bumpNonce();
+			return out;
+		} catch {
+			return null;
+		}
+	}
+}
+
+/**
+ * The tunnel as seen by the caller: a duplex stream of plaintext that is
+ * sealed into AEAD chunks on the way out and opened on the way in. It stands
+ * in for a `net.Socket`, so TLS, the HTTP client and the pool run over it;
+ * the socket members it does not need itself are forwarded to the raw
+ * connection.
+ */
+class ShadowsocksSocket extends Duplex {
+	private encryptor: AeadSession;
+	private salt: Buffer | null;
+	private decryptor: AeadSession | null = null;
+	private buffered: Buffer = Buffer.alloc(0);
+	private rawEnded = false;
+	private payloadLength: number | null = null;
+
+	constructor(
+		private raw: net.Socket,
+		private cipher: ShadowsocksCipher,
+		private masterKey: Buffer,
+	) {
+		super();
+		this.salt = randomBytes(cipher.keyLength);
+		this.encryptor = new AeadSession(cipher, masterKey, this.salt);
+		raw.on("data", (chunk: Buffer) => this.onRawData(chunk));
+		raw.on("end", () => {
+			this.rawEnded = true;
+			this.push(null);
+		});
+		raw.on("error", (err) => this.destroy(err));
+		// A clean close ends the readable side first; anything else is abrupt.
+		raw.on("close", () => {
+			if (!this.rawEnded) this.destroy();
+		});
+		raw.on("timeout", () => this.emit("timeout"));
+	}
+
+	get remoteAddress(): string | undefined {
+		return this.raw.remoteAddress;
+	}
+
+	get remotePort(): number | undefined {
+		return this.raw.remotePort;
+	}
+
+	setTimeout(ms: number, callback?: () => void): this {
+		this.raw.setTimeout(ms);
+		if (callback) this.once("timeout", callback);
+		return this;
+	}
+
+	setNoDelay(noDelay?: boolean): this {
+		this.raw.setNoDelay(noDelay);
+		return this;
+	}
+
+	setKeepAlive(enable?: boolean, initialDelay?: number): this {
+		this.raw.setKeepAlive(enable, initialDelay);
+		return this;
+	}
+
+	ref(): this {
+		this.raw.ref();
+		return this;
+	}
+
+	unref(): this {
+		this.raw.unref();
+		return this;
+	}
+
+	address(): ReturnType<net.Socket["address"]> {
+		return this.raw.address();
+	}
+
+	get localAddress(): string | undefined {
+		return this.raw.localAddress;
+	}
+
+	get localPort(): number | undefined {
+		return this.raw.localPort;
+	}
+
+	get localFamily(): string | undefined {
+		return this.raw.localFamily;
+	}
+
+	get remoteFamily(): string | undefined {
+		return this.raw.remoteFamily;
+	}
+
+	get timeout(): number | undefined {
+		return this.raw.timeout;
+	}
+
+	/** Bytes received from the server, still encrypted. */
+	get bytesRead(): number {
+		return this.raw.bytesRead;
+	}
+
+	/** Bytes sent to the server, encrypted and framed. */
+	get bytesWritten(): number {
+		return this.raw.bytesWritten;
+	}
+
+	get bufferSize(): number {
+		return this.writableLength;
+	}
+
+	/** The tunnel is open as soon as it exists; there is nothing to dial. */
+	get connecting(): boolean {
+		return false;
+	}
+
+	get pending(): boolean {
+		return false;
+	}
+
+	get readyState(): net.SocketReadyState {
+		if (this.destroyed) return "closed";
+		if (!this.readable) return this.writable ? "writeOnly" : "closed";
+		return this.writable ? "open" : "readOnly";
+	}
+
+	get autoSelectFamilyAttemptedAddresses(): string[] {
+		return this.raw.autoSelectFamilyAttemptedAddresses ?? [];
+	}
+
+	/** A tunnel cannot be redialed; open a new one instead. */
+	connect(): this {
+		throw new Error("A Shadowsocks tunnel cannot be reconnected");
+	}
+
+	destroySoon(): void {
+		this.end(() => this.destroy());
+	}
+
+	resetAndDestroy(): this {
+		this.raw.resetAndDestroy();
+		return this.destroy();
+	}
+
+	private onRawData(chunk: Buffer): void {
+		this.buffered =
+			this.buffered.length === 0
+				? chunk
+				: Buffer.concat([this.buffered, chunk]);
+
+		// The server's stream opens with its own salt.
+		if (!this.decryptor) {
+			if (this.buffered.length < this.cipher.keyLength) return;
+			const salt = this.buffered.subarray(0, this.cipher.keyLength);
+			this.decryptor = new AeadSession(this.cipher, this.masterKey, salt);
+			this.buffered = this.buffered.subarray(this.cipher.keyLength);
+		}
+
+		// Each chunk: sealed 2-byte length, then the sealed payload.
+		while (true) {
+			if (this.payloadLength === null) {
+				if (this.buffered.length < 2 + TAG_LENGTH) return;
+				const length = this.decryptor.open(
+					this.buffered.subarray(0, 2 + TAG_LENGTH),
+				);
+				if (!length) {
+					this.failAuthentication();
+					return;
+				}
+				this.payloadLength = length.readUInt16BE(0) & MAX_CHUNK_PAYLOAD;
+				this.buffered = this.buffered.subarray(2 + TAG_LENGTH);
+			}
+			const sealedLength = this.payloadLength + TAG_LENGTH;
+			if (this.buffered.length < sealedLength) return;
+			const payload = this.decryptor.open(
+				this.buffered.subarray(0, sealedLength),
+			);
+			if (!payload) {
+				this.failAuthentication();
+				return;
+			}
+			this.buffered = this.buffered.subarray(sealedLength);
+			this.payloadLength = null;
+			if (!this.push(payload)) this.raw.pause();
+		}
+	}
+
+	private failAuthentication(): void {
+		this.destroy(
+			new Error(
+				"Shadowsocks server response failed authentication (wrong password or cipher?)",
+			),
+		);
+	}
+
+	override _read(): void {
+		this.raw.resume();
+	}
+
+	override _write(
+		chunk: Buffer,
+		_encoding: BufferEncoding,
+		callback: (error?: Error | null) => void,
+	): void {
+		const parts: Buffer[] = [];
+		if (this.salt) {
+			parts.push(this.salt);
+			this.salt = null;
+		}
+		for (let i = 0; i < chunk.length; i += MAX_CHUNK_PAYLOAD) {
+			const payload = chunk.subarray(i, i + MAX_CHUNK_PAYLOAD);
+			const length = Buffer.alloc(2);
+			length.writeUInt16BE(payload.length);
+			parts.push(this.encryptor.seal(length), this.encryptor.seal(payload));
+		}
+		this.raw.write(Buffer.concat(parts), callback);
+	}
+
+	override _final(callback: (error?: Error | null) => void): void {
+		this.raw.end(callback);
+	}
+
+	override _destroy(
+		error: Error | null,
+		callback: (error?: Error | null) => void,
+	): void {
+		this.raw.destroy();
+		callback(error);
+	}
+}
+
+/**
+ * Open a Shadowsocks AEAD tunnel to `targetHost:targetPort`. The target
+ * address goes out as the first sealed chunk; Shadowsocks has no reply, so a
+ * wrong password or an unreachable target only shows up once data flows (as
+ * an authentication error or the server closing the connection).
+ *
+ * With `via`, the server is reached through that socket instead of a new
+ * connection.
+ */
+export async function openShadowsocksTunnel(
+	config: ShadowsocksConfig,
+	targetHost: string,
+	targetPort: number,
+	signal?: AbortSignal,
+	via?: net.Socket,
+): Promise<net.Socket> {
+	const cipher = lookupCipher(config.user);
+	if (!getCiphers().includes(cipher.algorithm)) {
+		throw new Error(
+			`Shadowsocks cipher ${config.user} is not available in this runtime's node:crypto`,
+		);
+	}
+	const header = encodeSocks5Address(targetHost, targetPort);
+	const raw =
+		via ?? (await openProxySocket(config, "Shadowsocks server", signal));
+
+	const socket = new ShadowsocksSocket(
+		raw,
+		cipher,
+		deriveMasterKey(config.password, cipher.keyLength),
+	);
+	socket.write(header);
+	return socket;
+}
@@ -0,0 +1,161 @@
+import * as net from "node:net";
+import type { LocalBinding } from "./happy-eyeballs";
+import { type DnsOptions, lookupAddress } from "./lookup";
+import { openProxySocket } from "./proxy-tls";
+import { armTimeout, DEFAULT_TIMEOUTS, type Timeouts } from "./timeouts";
+
+/** Proxy fields the SOCKS4 handshake needs (subset of `parseProxyUrl`). */
+export interface Socks4ProxyConfig {
+	host: string;
+	port: number;
+	user: string;
+	protocol: string;
+	/** Happy Eyeballs delay between attempts to the proxy's addresses, in ms. */
+	attemptDelay?: number;
+	/** Phase limits for reaching the proxy and for its reply. */
+	timeouts?: Timeouts;
+	/** Local address, port and family for the connection to the proxy. */
+	local?: LocalBinding;
+	/** How the proxy's hostname, and for `socks4` the target's, resolve. */
+	dns?: DnsOptions;
+}
+
+/**
+ * Human-readable reasons for the SOCKS4 reply codes (CD field).
+ * 0x5A is "request granted" and never surfaces as an error.
+ */
+const SOCKS4_REPLY_MESSAGES = new Map<number, string>([
+	[0x5b, "request rejected or failed"],
+	[0x5c, "proxy could not reach identd on the client"],
+	[0x5d, "identd reported a different user-id"],
+]);
+
+/**
+ * Build a SOCKS4 / SOCKS4a CONNECT request.
+ *
+ * SOCKS4 can only carry an IPv4 address. SOCKS4a extends it: when DSTIP is
+ * the invalid address 0.0.0.x (x != 0), the hostname follows the USERID
+ * field and the proxy resolves it.
+ */
+export function buildSocks4Request(
+	targetPort: number,
+	ipv4: string | null,
+	userId: string,
+	hostname?: string,
+): Buffer {
+	const head = Buffer.from([
+		0x04, // VN
+		0x01, // CD = CONNECT
+		(targetPort >> 8) & 0xff,
+		targetPort & 0xff,
+	]);
+	const dstIp = ipv4
+		? Buffer.from(ipv4.split(".").map(Number))
+		: Buffer.from([0x00, 0x00, 0x00, 0x01]);
+	const parts = [head, dstIp, Buffer.from(userId), Buffer.from([0x00])];
+	if (!ipv4 && hostname) {
+		parts.push(Buffer.from(hostname), Buffer.from([0x00]));
+	}
+	return Buffer.concat(parts);
+}
+
+/**
+ * Establishes a raw TCP connection to a SOCKS4/SOCKS4a proxy and performs the
+ * CONNECT handshake. Resolves with the plain tunnel socket; TLS to the target
+ * is layered on by the caller, exactly as for SOCKS5.
+ *
+ * - `socks4`: the target must be an IPv4 address, so hostnames are always
+ *   resolved locally (A records only).
+ * - `socks4a`: hostnames are sent to the proxy unless `resolveDnsLocally` is set.
+ *
+ * With `via`, the handshake runs over that socket (a tunnel to the proxy
+ * through an earlier hop) instead of a new connection.
+ */
+export async function connectSocks4(
+	config: Socks4ProxyConfig,
+	targetHost: string,
+	targetPort: number,
+	resolveDnsLocally = false,
+	signal?: AbortSignal,
+	via?: net.Socket,
+): Promise<net.Socket> {
+	if (net.isIPv6(targetHost)) {
+		throw new Error(
+			`SOCKS4 cannot address IPv6 target ${targetHost}; use a SOCKS5 proxy`,
+		);
+	}
+
+	let ipv4: string | null = net.isIPv4(targetHost) ? targetHost : null;
+	if (!ipv4 && (config.protocol === "socks4" || resolveDnsLocally)) {
+		ipv4 = await lookupAddress(targetHost, "ipv4only", config.dns, targetPort);
+	}
+
+	const request = buildSocks4Request(targetPort, ipv4, config.user, targetHost);
+
+	const socket = via ?? (await openProxySocket(config, "SOCKS4 proxy", signal));
+
+	return new Promise((resolve, reject) => {
+		// The reply is a fixed 8 bytes: VN(0) CD DSTPORT(2) DSTIP(4).
+		let reply: Buffer = Buffer.alloc(0);
+
+		// Only our own listeners come off: a `via` socket has its owner's.
+		const cleanup = () => {
+			disarm();
+			signal?.removeEventListener("abort", abortHandler);
+			socket.removeListener("data", onData);
+			socket.removeListener("error", onError);
+			socket.removeListener("end", onClose);
+			socket.removeListener("close", onClose);
+		};
+		const fail = (err: Error) => {
+			cleanup();
+			socket.destroy();
+			reject(err);
+		};
+		const abortHandler = () =>
+			fail(signal?.reason || new Error("Request aborted"));
+		const onError = (err: Error) => fail(err);
+		const onClose = () =>
+			fail(new Error("SOCKS4 proxy closed the connection during handshake"));
+
+		const onData = (data: Buffer) => {
+			reply = reply.length === 0 ? data : Buffer.concat([reply, data]);
+			if (reply.length < 8) return;
+
+			if (reply[0] !== 0x00) {
+				fail(new Error("Invalid SOCKS4 reply version"));
+				return;
+			}
+			const code = reply[1] as number;
+			if (code !== 0x5a) {
+				fail(
+					new Error(
+						`SOCKS4 Connect failed: ${SOCKS4_REPLY_MESSAGES.get(code) ?? `code ${code}`}`,
+					),
+				);
+				return;
+			}
+
+			cleanup();
+			// Anything past the reply already belongs to the tunnel.
+			if (reply.length > 8) socket.unshift(reply.subarray(8));
+			resolve(socket);
+		};
+
+		const disarm = armTimeout(
+			"handshake",
+			(config.timeouts ?? DEFAULT_TIMEOUTS).handshake,
+			fail,
+		);
+		if (signal?.aborted) {
+			fail(signal.reason || new Error("Request aborted"));
+			return;
+		}
+		signal?.addEventListener("abort", abortHandler);
+		socket.on("error", onError);
+		socket.on("end", onClose);
+		socket.on("close", onClose);
+		socket.on("data", onData);
+		socket.write(request);
+	});
+}
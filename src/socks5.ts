@@ -0,0 +1,453 @@
+import * as net from "node:net";
+import { defaultAuthMethods, type Socks5AuthMethod } from "./auth";
+import { redactProxy, Socks5ReplyError } from "./errors";
+import { dialProxy, openProxySocket, type ProxyEndpoint } from "./proxy-tls";
+import { armTimeout, DEFAULT_TIMEOUTS } from "./timeouts";
+
+/** Proxy fields the SOCKS5 handshake needs (subset of `parseProxyUrl`). */
+export interface Socks5ProxyConfig extends ProxyEndpoint {
+	user: string;
+	password: string;
+	/** Auth methods to offer, in order. Default: derived from user/password. */
+	auth?: Socks5AuthMethod[];
+}
+
+/** SOCKS5 request commands (RFC 1928 §4). */
+export const SOCKS5_CMD_CONNECT = 0x01;
+export const SOCKS5_CMD_BIND = 0x02;
+export const SOCKS5_CMD_UDP_ASSOCIATE = 0x03;
+/** Tor extensions: forward (0xF0) and reverse (0xF1) lookup by the proxy. */
+export const SOCKS5_CMD_RESOLVE = 0xf0;
+export const SOCKS5_CMD_RESOLVE_PTR = 0xf1;
+
+const COMMAND_LABELS = new Map([
+	[SOCKS5_CMD_CONNECT, "Connect"],
+	[SOCKS5_CMD_BIND, "Bind"],
+	[SOCKS5_CMD_UDP_ASSOCIATE, "UDP associate"],
+	[SOCKS5_CMD_RESOLVE, "Resolve"],
+	[SOCKS5_CMD_RESOLVE_PTR, "Reverse resolve"],
+]);
+
+/** An address as carried in SOCKS5 requests, replies and UDP headers. */
+export interface Socks5Address {
+	host: string;
+	port: number;
+}
+
+/**
+ * Convert an IPv6 literal (optionally with `::` compression, an embedded IPv4
+ * tail or a `%zone` suffix) to its 16 network-order bytes.
+ */
+export function ipv6ToBytes(host: string): Buffer {
+	let addr = host;
+	const zone = addr.indexOf("%");
+	if (zone !== -1) addr = addr.slice(0, zone);
+
+	const out = Buffer.alloc(16);
+	// "::ffff:1.2.3.4" — the IPv4 tail fills the last two groups.
+	let groupCount = 8;
+	const lastColon = addr.lastIndexOf(":");
+	if (addr.includes(".", lastColon)) {
+		out.set(
+			addr
+				.slice(lastColon + 1)
+				.split(".")
+				.map(Number),
+			12,
+		);
+		addr = `${addr.slice(0, lastColon + 1)}0:0`;
+		groupCount = 6;
+	}
+
+	const [head = "", tail] = addr.split("::");
+	const headGroups = head ? head.split(":") : [];
+	const tailGroups = tail ? tail.split(":") : [];
+	const groups =
+		tail === undefined
+			? headGroups
+			: [
+					...headGroups,
+					...new Array<string>(8 - headGroups.length - tailGroups.length).fill(
+						"0",
+					),
+					...tailGroups,
+				];
+	for (let i = 0; i < groupCount; i++) {
+		out.writeUInt16BE(parseInt(groups[i] ?? "0", 16), i * 2);
+	}
+	return out;
+}
+
+/**
+ * Encode `ATYP | ADDR | PORT` for a SOCKS5 request or UDP datagram header.
+ * IPv4 literals use ATYP 0x01, IPv6 literals 0x04; anything else is sent as a
+ * domain name (0x03).
+ */
+export function encodeSocks5Address(host: string, port: number): Buffer {
+	const portBuf = Buffer.from([(port >> 8) & 0xff, port & 0xff]);
+	if (net.isIPv4(host)) {
+		return Buffer.concat([
+			Buffer.from([0x01]),
+			Buffer.from(host.split(".").map(Number)),
+			portBuf,
+		]);
+	}
+	if (net.isIPv6(host)) {
+		return Buffer.concat([Buffer.from([0x04]), ipv6ToBytes(host), portBuf]);
+	}
+	const hostBuf = Buffer.from(host);
+	if (hostBuf.length > 255) {
+		throw new Error(`SOCKS5 hostname too long (${hostBuf.length} bytes)`);
+	}
+	return Buffer.concat([Buffer.from([0x03, hostBuf.length]), hostBuf, portBuf]);
+}
+
+/**
+ * Decode `ATYP | ADDR | PORT` starting at `offset`. Returns the address and
+ * the number of bytes it occupied, or null if `buf` is too short.
+ */
+export function decodeSocks5Address(
+	buf: Uint8Array,
+	offset: number,
+): (Socks5Address & { length: number }) | null {
+	const atyp = buf[offset];
+	let addrLen: number;
+	let addrStart = offset + 1;
+	if (atyp === 0x01) {
+		addrLen = 4;
+	} else if (atyp === 0x04) {
+		addrLen = 16;
+	} else if (atyp === 0x03) {
+		if (buf.length <= offset + 1) return null;
+		addrLen = buf[offset + 1] as number;
+		addrStart++;
+	} else if (atyp === undefined) {
+		return null;
+	} else {
+		throw new Error(`Unknown SOCKS5 address type: ${atyp}`);
+	}
+
+	const end = addrStart + addrLen + 2;
+	if (buf.length < end) return null;
+
+	const addr = buf.subarray(addrStart, addrStart + addrLen);
+	let host: string;
+	if (atyp === 0x01) {
+		host = Array.from(addr).join(".");
+	} else if (atyp === 0x04) {
+		const groups: string[] = [];
+		for (let i = 0; i < 16; i += 2) {
+			groups.push(
+				(((addr[i] as number) << 8) | (addr[i + 1] as number)).toString(16),
+			);
+		}
+		// Let URL produce the canonical compressed form ("::1", not "0:0:…:1")
+		host = new URL(`http://[${groups.join(":")}]/`).hostname.slice(1, -1);
+	} else {
+		host = Buffer.from(addr).toString();
+	}
+	const port = ((buf[end - 2] as number) << 8) | (buf[end - 1] as number);
+	return { host, port, length: end - offset };
+}
+
+/**
+ * Open a TCP connection to the proxy itself (TLS for `socks5+tls`). Rejects
+ * on DNS failure, a 30s connect timeout or `signal` aborting before the
+ * connection is up.
+ */
+export function connectToProxy(
+	config: Socks5ProxyConfig,
+	signal?: AbortSignal,
+): Promise<net.Socket> {
+	return openProxySocket(config, "SOCKS5 proxy", signal);
+}
+
+/** Parses one message off the front of `buf`: its value and byte length, or null if incomplete. */
+type MessageParser<T> = (buf: Buffer) => { value: T; length: number } | null;
+
+/**
+ * Buffered reader for the SOCKS5 handshake.
+ *
+ * Servers are free to split a message across several `data` events or to
+ * coalesce it with whatever follows (the next reply, or the first bytes of
+ * the tunneled protocol), so every message is parsed by its length instead of
+ * by event boundaries. Bytes left over when the handshake is done are pushed
+ * back onto the socket by `release()`, so the caller reads them first.
+ */
+export class Socks5Reader {
+	private buf: Buffer = Buffer.alloc(0);
+	private failure: Error | null = null;
+	private pending: {
+		parse: MessageParser<unknown>;
+		resolve: (value: unknown) => void;
+		reject: (err: Error) => void;
+	} | null = null;
+
+	constructor(readonly socket: net.Socket) {
+		socket.on("data", this.onData);
+		socket.on("error", this.onError);
+		socket.on("close", this.onClose);
+	}
+
+	/** Wait until `parse` recognises a complete message, then consume it. */
+	read<T>(parse: MessageParser<T>): Promise<T> {
+		if (this.pending) {
+			return Promise.reject(new Error("SOCKS5 read already in progress"));
+		}
+		return new Promise<T>((resolve, reject) => {
+			this.pending = {
+				parse,
+				resolve: resolve as (value: unknown) => void,
+				reject,
+			};
+			this.drain();
+		});
+	}
+
+	/** Read exactly `n` bytes. */
+	readBytes(n: number): Promise<Buffer> {
+		return this.read((buf) =>
+			buf.length >= n ? { value: buf.subarray(0, n), length: n } : null,
+		);
+	}
+
+	/**
+	 * Stop reading: detach from the socket and hand any surplus bytes back to
+	 * it, so they are the first thing the socket's next consumer sees.
+	 */
+	release(): void {
+		this.socket.removeListener("data", this.onData);
+		this.socket.removeListener("error", this.onError);
+		this.socket.removeListener("close", this.onClose);
+		if (this.buf.length > 0) this.socket.unshift(this.buf);
+		this.buf = Buffer.alloc(0);
+	}
+
+	private drain(): void {
+		const pending = this.pending;
+		if (!pending) return;
+		let parsed: { value: unknown; length: number } | null;
+		try {
+			parsed = pending.parse(this.buf);
+		} catch (err) {
+			this.pending = null;
+			pending.reject(err as Error);
+			return;
+		}
+		if (parsed) {
+			this.pending = null;
+			this.buf = this.buf.subarray(parsed.length);
+			pending.resolve(parsed.value);
+			return;
+		}
+		if (this.failure) {
+			this.pending = null;
+			pending.reject(this.failure);
+		}
+	}
+
+	private onData = (chunk: Buffer) => {
+		this.buf = this.buf.length === 0 ? chunk : Buffer.concat([this.buf, chunk]);
+		this.drain();
+	};
+
+	private onError = (err: Error) => {
+		this.failure ??= err;
+		this.drain();
+	};
+
+	private onClose = () => {
+		this.failure ??= new Error(
+			"SOCKS5 proxy closed the connection during handshake",
+		);
+		this.drain();
+	};
+}
+
+/**
+ * The auth methods to offer: `config.auth` in order, or the defaults for the
+ * URL's credentials. Throws for ids or credentials that cannot be sent, so
+ * callers check this before dialing the proxy.
+ */
+export function socks5AuthMethods(
+	config: Socks5ProxyConfig,
+): Socks5AuthMethod[] {
+	const methods =
+		config.auth ?? defaultAuthMethods(config.user, config.password);
+	const ids = methods.map((m) => m.method);
+	if (ids.length === 0 || ids.length > 255) {
+		throw new Error("SOCKS5 must offer between 1 and 255 auth methods");
+	}
+	for (const id of ids) {
+		if (!Number.isInteger(id) || id < 0x00 || id > 0xfe) {
+			throw new Error(`Invalid SOCKS5 auth method id: ${id}`);
+		}
+	}
+	if (new Set(ids).size !== ids.length) {
+		throw new Error("Duplicate SOCKS5 auth method ids");
+	}
+	return methods;
+}
+
+/**
+ * Method negotiation plus the chosen method's sub-negotiation, offering
+ * {@link socks5AuthMethods}. On return the proxy is ready to accept a request.
+ */
+export async function negotiateSocks5(
+	reader: Socks5Reader,
+	config: Socks5ProxyConfig,
+): Promise<void> {
+	const methods = socks5AuthMethods(config);
+	const ids = methods.map((m) => m.method);
+
+	reader.socket.write(Buffer.from([0x05, ids.length, ...ids]));
+
+	// VER | METHOD
+	const choice = await reader.readBytes(2);
+	if (choice[0] !== 0x05) throw new Error("Invalid SOCKS version");
+
+	const selected = methods.find((m) => m.method === choice[1]);
+	if (!selected) {
+		if (choice[1] === 0x02 && !config.user) {
+			throw new Error(
+				"Proxy requested auth, but no credentials provided in URL",
+			);
+		}
+		throw new Error("Proxy rejected supported authentication methods");
+	}
+	await selected.authenticate({
+		socket: reader.socket,
+		read: (length) => reader.readBytes(length),
+	});
+}
+
+/**
+ * Send a SOCKS5 request (CONNECT, BIND or UDP ASSOCIATE) for `target` and
+ * wait for the reply. Resolves with the BND.ADDR/BND.PORT the proxy reported.
+ */
+export async function sendSocks5Request(
+	reader: Socks5Reader,
+	config: Socks5ProxyConfig,
+	cmd: number,
+	target: Socks5Address,
+): Promise<Socks5Address> {
+	reader.socket.write(
+		Buffer.concat([
+			Buffer.from([0x05, cmd, 0x00]),
+			encodeSocks5Address(target.host, target.port),
+		]),
+	);
+	return readSocks5Reply(reader, config, cmd, target);
+}
+
+/**
+ * Read one SOCKS5 reply and check its REP field. BIND uses this directly for
+ * its second reply, which arrives unprompted when the remote peer connects.
+ * A non-zero REP rejects with a {@link Socks5ReplyError} naming `target`.
+ */
+export async function readSocks5Reply(
+	reader: Socks5Reader,
+	config: Socks5ProxyConfig,
+	cmd: number,
+	target: Socks5Address,
+): Promise<Socks5Address> {
+	// VER | REP | RSV | ATYP | BND.ADDR | BND.PORT — a failure reply may be
+	// cut short by the proxy closing, so REP is checked as soon as it's there.
+	const reply = await reader.read<{ rep: number; bound: Socks5Address | null }>(
+		(buf) => {
+			if (buf.length >= 1 && buf[0] !== 0x05) {
+				throw new Error("Invalid SOCKS version");
+			}
+			if (buf.length >= 2 && buf[1] !== 0x00) {
+				return { value: { rep: buf[1] as number, bound: null }, length: 2 };
+			}
+			if (buf.length < 4) return null;
+			const bound = decodeSocks5Address(buf, 3);
+			if (!bound) return null;
+			return { value: { rep: 0x00, bound }, length: 3 + bound.length };
+		},
+	);
+	if (reply.rep !== 0x00 || !reply.bound) {
+		const label = COMMAND_LABELS.get(cmd) ?? `Command 0x${cmd.toString(16)}`;
+		const host = target.host.includes(":") ? `[${target.host}]` : target.host;
+		throw new Socks5ReplyError(
+			label,
+			reply.rep,
+			redactProxy({ ...config, protocol: config.protocol ?? "socks5" }),
+			`${host}:${target.port}`,
+		);
+	}
+	return { host: reply.bound.host, port: reply.bound.port };
+}
+
+/**
+ * An all-zero BND.ADDR means "the address you reached the proxy on"; swap in
+ * the control connection's remote address so callers get something usable.
+ */
+export function substituteUnspecified(
+	bound: Socks5Address,
+	socket: net.Socket,
+	proxyHost: string,
+): Socks5Address {
+	if (bound.host !== "0.0.0.0" && bound.host !== "::") return bound;
+	return { host: socket.remoteAddress ?? proxyHost, port: bound.port };
+}
+
+/** A SOCKS5 CONNECT tunnel plus what the proxy reported about it. */
+export interface Socks5Tunnel {
+	/** Plain tunnel to the target; surplus handshake bytes are already unshifted. */
+	socket: net.Socket;
+	/** BND.ADDR/BND.PORT from the CONNECT reply (the proxy's outbound side). */
+	bound: Socks5Address;
+}
+
+/**
+ * Connect to the proxy, authenticate and CONNECT to `targetHost:targetPort`.
+ * `targetHost` is sent as-is: IP literals as ATYP 0x01/0x04, names as 0x03.
+ * With `via`, the handshake runs over that socket instead of a new connection.
+ */
+export async function openSocks5Tunnel(
+	config: Socks5ProxyConfig,
+	targetHost: string,
+	targetPort: number,
+	signal?: AbortSignal,
+	via?: net.Socket,
+): Promise<Socks5Tunnel> {
+	// Validate the target (e.g. hostname length) and the credentials before
+	// dialing the proxy.
+	encodeSocks5Address(targetHost, targetPort);
+	socks5AuthMethods(config);
+	const socket = via
+		? dialProxy(config, via)
+		: await connectToProxy(config, signal);
+
+	// Abort or timeout mid-handshake tears the socket down; the pending read
+	// rejects.
+	const abortHandler = () => {
+		socket.destroy(signal?.reason || new Error("Request aborted"));
+	};
+	signal?.addEventListener("abort", abortHandler);
+	const disarm = armTimeout(
+		"handshake",
+		(config.timeouts ?? DEFAULT_TIMEOUTS).handshake,
+		(err) => socket.destroy(err),
+	);
+
+	const reader = new Socks5Reader(socket);
+	try {
+		await negotiateSocks5(reader, config);
+		const bound = await sendSocks5Request(reader, config, SOCKS5_CMD_CONNECT, {
+			host: targetHost,
+			port: targetPort,
+		});
+		reader.release();
+		return { socket, bound };
+	} catch (err) {
+		reader.release();
+		socket.destroy();
+		throw err;
+	} finally {
+		disarm();
+		signal?.removeEventListener("abort", abortHandler);
+	}
+}
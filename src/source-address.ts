@@ -0,0 +1,122 @@
+import * as net from "node:net";
+import * as os from "node:os";
+
+/** A block of local addresses: `size` consecutive addresses from `start`. */
+interface AddressRange {
+	start: bigint;
+	size: bigint;
+	family: 4 | 6;
+}
+
+/** Rotation state per `localAddress` setting, so it survives across requests. */
+const rotations = new Map<
+	string,
+	{ ranges: AddressRange[]; total: bigint; next: bigint }
+>();
+
+export function ipToBigInt(ip: string): bigint {
+	if (net.isIPv4(ip)) {
+		return ip
+			.split(".")
+			.reduce((acc, octet) => (acc << 8n) | BigInt(octet), 0n);
+	}
+	// Expand "::" (and a trailing dotted quad) into eight 16-bit groups.
+	let text = ip;
+	const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+	if (dotted) {
+		const v4 = ipToBigInt(dotted[1] as string);
+		text = `${text.slice(0, dotted.index)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+	}
+	const [head = "", tail] = text.split("::");
+	const left = head ? head.split(":") : [];
+	const right = tail ? tail.split(":") : [];
+	const groups =
+		tail === undefined
+			? left
+			: [...left, ...Array(8 - left.length - right.length).fill("0"), ...right];
+	return groups.reduce((acc, group) => (acc << 16n) | BigInt(`0x${group}`), 0n);
+}
+
+export function bigIntToIp(value: bigint, family: 4 | 6): string {
+	if (family === 4) {
+		return [24n, 16n, 8n, 0n].map((s) => (value >> s) & 0xffn).join(".");
+	}
+	const groups: string[] = [];
+	for (let shift = 112n; shift >= 0n; shift -= 16n) {
+		groups.push(((value >> shift) & 0xffffn).toString(16));
+	}
+	// Let URL produce the canonical compressed form
+	return new URL(`http://[${groups.join(":")}]/`).hostname.slice(1, -1);
+}
+
+/**
+ * Parse one `localAddress` entry: an IP address, a CIDR block whose usable
+ * host addresses are taken in order (IPv4 network and broadcast addresses,
+ * and the IPv6 subnet-router anycast address, are skipped), or the name of a
+ * network interface, standing for its addresses (link-local IPv6 excluded,
+ * as those need a scope).
+ */
+function parseRanges(entry: string): AddressRange[] {
+	const [ip = "", prefixText] = entry.trim().split("/");
+	const kind = net.isIP(ip);
+	if (kind === 0) {
+		const addresses = (os.networkInterfaces()[entry] ?? []).filter(
+			(a) => !a.address.toLowerCase().startsWith("fe80:"),
+		);
+		if (addresses.length === 0) {
+			throw new Error(`Invalid local address: ${entry}`);
+		}
+		return addresses.map((a) => ({
+			start: ipToBigInt(a.address),
+			size: 1n,
+			family: a.family === "IPv6" ? 6 : 4,
+		}));
+	}
+	const family = kind as 4 | 6;
+	const bits = family === 4 ? 32n : 128n;
+	if (prefixText === undefined) {
+		return [{ start: ipToBigInt(ip), size: 1n, family }];
+	}
+	const prefix = /^\d+$/.test(prefixText) ? BigInt(prefixText) : -1n;
+	if (prefix < 0n || prefix > bits) {
+		throw new Error(`Invalid local address: ${entry}`);
+	}
+	const hostBits = bits - prefix;
+	const network = (ipToBigInt(ip) >> hostBits) << hostBits;
+	const size = 1n << hostBits;
+	if (family === 4 && hostBits >= 2n) {
+		return [{ start: network + 1n, size: size - 2n, family }];
+	}
+	if (family === 6 && hostBits >= 2n) {
+		return [{ start: network + 1n, size: size - 1n, family }];
+	}
+	return [{ start: network, size, family }];
+}
+
+/**
+ * Pick the local address for the next connection from a `localAddress`
+ * setting: a single IP is used as is, while a list of IPs, CIDR blocks and
+ * interface names is walked round-robin, one address per call, across all
+ * calls with the same setting.
+ */
+export function nextSourceAddress(spec: string | string[]): string {
+	if (typeof spec === "string" && net.isIP(spec)) return spec;
+	const entries = Array.isArray(spec) ? spec : [spec];
+	const key = entries.join(",");
+	let rotation = rotations.get(key);
+	if (!rotation) {
+		if (entries.length === 0) throw new Error("Local address list is empty");
+		const ranges = entries.flatMap(parseRanges);
+		const total = ranges.reduce((sum, range) => sum + range.size, 0n);
+		rotation = { ranges, total, next: 0n };
+		rotations.set(key, rotation);
+	}
+	let offset = rotation.next;
+	rotation.next = (rotation.next + 1n) % rotation.total;
+	let range = rotation.ranges[0] as AddressRange;
+	for (range of rotation.ranges) {
+		if (offset < range.size) break;
+		offset -= range.size;
+	}
+	return bigIntToIp(range.start + offset, range.family);
+}
@@ -0,0 +1,53 @@
+import { ProxyTimeoutError, type TimeoutPhase } from "./errors";
+
+/**
+ * Limits, in milliseconds, for each phase of a proxied request. A missing or
+ * zero value means no limit for that phase.
+ */
+export interface Timeouts {
+	/** TCP connection to the proxy (or the first hop of a chain). Default: 30000. */
+	connect?: number;
+	/** SOCKS or HTTP CONNECT negotiation with the proxy. Default: 30000. */
+	handshake?: number;
+	/** Each TLS handshake: to a TLS proxy, and to an `https` target. */
+	tls?: number;
+	/** From sending the request until the first byte of the response. */
+	firstByte?: number;
+	/** Longest gap between two chunks of the response once it has started. */
+	bodyIdle?: number;
+	/** The whole `fetch` call, redirects included. */
+	total?: number;
+}
+
+export const DEFAULT_TIMEOUTS: Readonly<Timeouts> = {
+	connect: 30000,
+	handshake: 30000,
+};
+
+/**
+ * Merge timeout settings, later layers winning per phase, on top of the
+ * defaults: e.g. the client's `proxy.timeouts`, then the request's own.
+ */
+export function resolveTimeouts(...layers: (Timeouts | undefined)[]): Timeouts {
+	const merged: Timeouts = { ...DEFAULT_TIMEOUTS };
+	for (const layer of layers) {
+		for (const [phase, ms] of Object.entries(layer ?? {})) {
+			if (ms !== undefined) merged[phase as keyof Timeouts] = ms;
+		}
+	}
+	return merged;
+}
+
+/**
+ * Call `fail` with a {@link ProxyTimeoutError} for `phase` unless the
+ * returned disarm function runs within `ms`. Without a limit this is a no-op.
+ */
+export function armTimeout(
+	phase: TimeoutPhase,
+	ms: number | undefined,
+	fail: (err: ProxyTimeoutError) => void,
+): () => void {
+	if (!ms) return () => {};
+	const timer = setTimeout(() => fail(new ProxyTimeoutError(phase, ms)), ms);
+	return () => clearTimeout(timer);
+}
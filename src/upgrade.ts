@@ -0,0 +1,118 @@
+import type * as net from "node:net";
+import type * as tls from "node:tls";
+import type { HeadersInit } from "bun";
+import { dialTarget, type ResponseHead, readResponseHead } from "./connect";
+import type { ProxyOptions } from "./fetch";
+
+/** Options for {@link upgrade}. */
+export interface UpgradeOptions {
+	/** Value of the Upgrade header, e.g. `h2c` or a custom protocol token. */
+	protocol: string;
+	/**
+	 * Proxy to tunnel through, as for `fetch`. Defaults to the proxy
+	 * environment variables; `null` (or no proxy at all) connects directly.
+	 */
+	proxy?: string | string[] | ProxyOptions | null;
+	/** Extra request headers; a `Connection` header gets `Upgrade` added. */
+	headers?: HeadersInit;
+	/** Request method. Default: `GET`. */
+	method?: string;
+	/** TLS options for `https://` targets. */
+	tls?: tls.ConnectionOptions;
+	/** Aborts until the server has answered. */
+	signal?: AbortSignal;
+	/** Deadline in milliseconds for connecting and the response headers. Default: 30000. */
+	timeout?: number;
+}
+
+/** What {@link upgrade} resolves with once the server switches protocols. */
+export interface UpgradeResult {
+	/** The `101 Switching Protocols` response, without a body. */
+	response: Response;
+	/** The connection, now speaking the new protocol. It is paused. */
+	socket: net.Socket | tls.TLSSocket;
+	/** Bytes of the new protocol that arrived together with the headers. */
+	head: Buffer;
+}
+
+/**
+ * Send an HTTP/1.1 Upgrade request through the proxy and hand back the raw
+ * connection once the server answers `101 Switching Protocols`, for protocols
+ * `fetch` cannot express: h2c, or custom TCP-over-HTTP upgrades.
+ *
+ * The socket is returned paused so no bytes are lost before handlers are
+ * attached: add them, then call `resume()` (or `pipe()` it). Any other status
+ * rejects and closes the connection.
+ *
+ * @example
+ * ```ts
+ * const { socket, head } = await upgrade("http://tunnel.example.com/ssh", {
+ *   protocol: "ssh-over-http",
+ *   proxy: "socks5://127.0.0.1:1080",
+ * });
+ * socket.on("data", (data) => console.log(data));
+ * socket.resume();
+ * ```
+ */
+export async function upgrade(
+	url: string | URL,
+	options: UpgradeOptions,
+): Promise<UpgradeResult> {
+	const target = new URL(url);
+	if (target.protocol !== "http:" && target.protocol !== "https:") {
+		throw new Error(
+			`Upgrade URL must use http: or https:, got ${target.protocol}`,
+		);
+	}
+	const secure = target.protocol === "https:";
+	const timeout = options.timeout ?? 30000;
+	const socket = (await dialTarget({
+		host: target.hostname.replace(/^\[|\]$/g, ""),
+		port: target.port ? Number(target.port) : secure ? 443 : 80,
+		proxy: options.proxy,
+		tls: secure ? (options.tls ?? true) : false,
+		signal: options.signal,
+		timeout,
+	})) as net.Socket;
+
+	const headers = new Headers(options.headers);
+	headers.set("Host", target.host);
+	headers.set("Upgrade", options.protocol);
+	const connection = headers.get("connection");
+	if (!connection || !/(^|,)\s*upgrade\s*(,|$)/i.test(connection)) {
+		headers.set(
+			"Connection",
+			connection ? `${connection}, Upgrade` : "Upgrade",
+		);
+	}
+	let head = `${options.method ?? "GET"} ${target.pathname}${target.search} HTTP/1.1\r\n`;
+	headers.forEach((value, name) => {
+		head += `${name}: ${value}\r\n`;
+	});
+	socket.write(`${head}\r\n`);
+
+	let response: ResponseHead;
+	try {
+		response = await readResponseHead(socket, timeout, options.signal);
+	} catch (err) {
+		socket.destroy();
+		throw err;
+	}
+	if (response.status !== 101) {
+		socket.destroy();
+		throw new Error(
+			`Upgrade to ${options.protocol} was refused: ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+		);
+	}
+
+	socket.pause();
+	return {
+		response: new Response(null, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		}),
+		socket,
+		head: Buffer.from(response.rest),
+	};
+}
@@ -0,0 +1,776 @@
+import { createHash, randomBytes } from "node:crypto";
+import type * as net from "node:net";
+import type * as tls from "node:tls";
+import * as zlib from "node:zlib";
+import type { HeadersInit } from "bun";
+import { dialTarget, readResponseHead } from "./connect";
+import type { ProxyOptions } from "./fetch";
+
+/** Appended to Sec-WebSocket-Key before hashing (RFC 6455 §1.3). */
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_BINARY = 0x2;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+/** Tail every permessage-deflate message drops and the receiver adds back. */
+const DEFLATE_TAIL = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+/** Messages smaller than this are sent uncompressed. */
+const COMPRESS_THRESHOLD = 1024;
+/** How long to wait for the server to close TCP after the close handshake. */
+const CLOSE_TIMEOUT = 30000;
+
+/** Options for {@link WebSocket}; the second argument may also be just the protocols. */
+export interface WebSocketOptions {
+	/** Subprotocols to offer in Sec-WebSocket-Protocol. */
+	protocols?: string | string[];
+	/**
+	 * Proxy to tunnel through, as for `fetch`. Defaults to the proxy
+	 * environment variables; `null` (or no proxy at all) connects directly.
+	 */
+	proxy?: string | string[] | ProxyOptions | null;
+	/** Extra headers for the Upgrade request. */
+	headers?: HeadersInit;
+	/** TLS options for `wss://` targets. */
+	tls?: tls.ConnectionOptions;
+	/** Offer permessage-deflate (RFC 7692). Default: true. */
+	perMessageDeflate?: boolean;
+	/** Largest message accepted, in bytes; bigger ones close with 1009. Default: 100 MiB. */
+	maxPayload?: number;
+	/** Deadline in milliseconds for connecting and the Upgrade handshake. Default: 30000. */
+	timeout?: number;
+}
+
+type BinaryType = "nodebuffer" | "arraybuffer" | "blob";
+type SendData = string | ArrayBufferLike | ArrayBufferView | Blob;
+
+/** permessage-deflate parameters the server accepted. */
+interface DeflateParams {
+	serverNoContextTakeover: boolean;
+	clientNoContextTakeover: boolean;
+	clientMaxWindowBits: number;
+}
+
+/**
+ * Parse the server's permessage-deflate response. Anything we did not offer
+ * or cannot honour fails the handshake.
+ */
+function parseDeflateResponse(header: string): DeflateParams {
+	const [name, ...params] = header.split(";").map((p) => p.trim());
+	if (name !== "permessage-deflate" || header.includes(",")) {
+		throw new Error(`Server accepted an extension we did not offer: ${header}`);
+	}
+	const result: DeflateParams = {
+		serverNoContextTakeover: false,
+		clientNoContextTakeover: false,
+		clientMaxWindowBits: 15,
+	};
+	const seen = new Set<string>();
+	for (const param of params) {
+		const [key = "", raw] = param.split("=").map((p) => p.trim());
+		if (seen.has(key)) {
+			throw new Error(`Duplicate permessage-deflate parameter: ${key}`);
+		}
+		seen.add(key);
+		const value = raw?.replace(/^"|"$/g, "");
+		if (key === "server_no_context_takeover" && value === undefined) {
+			result.serverNoContextTakeover = true;
+		} else if (key === "client_no_context_takeover" && value === undefined) {
+			result.clientNoContextTakeover = true;
+		} else if (
+			key === "server_max_window_bits" &&
+			/^(8|9|1[0-5])$/.test(value ?? "")
+		) {
+			// We inflate with the largest window, which covers any smaller one.
+		} else if (
+			key === "client_max_window_bits" &&
+			/^(9|1[0-5])$/.test(value ?? "")
+		) {
+			// zlib cannot produce raw deflate with an 8-bit window.
+			result.clientMaxWindowBits = Number(value);
+		} else {
+			throw new Error(`Unsupported permessage-deflate parameter: ${param}`);
+		}
+	}
+	return result;
+}
+
+/**
+ * Push `input` through a zlib stream and collect what a sync flush yields.
+ * Keeping the stream between calls keeps the LZ77 window (context takeover).
+ */
+function flushThrough(
+	stream: zlib.DeflateRaw | zlib.InflateRaw,
+	input: Buffer,
+	limit = Number.POSITIVE_INFINITY,
+): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let length = 0;
+		const done = (err?: Error) => {
+			stream.removeListener("data", onData);
+			stream.removeListener("error", done);
+			if (err) reject(err);
+			else resolve(Buffer.concat(chunks));
+		};
+		const onData = (chunk: Buffer) => {
+			length += chunk.length;
+			if (length > limit) {
+				done(new RangeError("Message too big"));
+				return;
+			}
+			chunks.push(chunk);
+		};
+		stream.on("data", onData);
+		stream.once("error", done);
+		stream.write(input);
+		stream.flush(zlib.constants.Z_SYNC_FLUSH, () => done());
+	});
+}
+
+/** The permessage-deflate codec for one connection. */
+class PerMessageDeflate {
+	private deflater: zlib.DeflateRaw | null = null;
+	private inflater: zlib.InflateRaw | null = null;
+
+	constructor(private params: DeflateParams) {}
+
+	async compress(data: Buffer): Promise<Buffer> {
+		this.deflater ??= zlib.createDeflateRaw({
+			windowBits: this.params.clientMaxWindowBits,
+		});
+		const out = await flushThrough(this.deflater, data);
+		if (this.params.clientNoContextTakeover) {
+			this.deflater.close();
+			this.deflater = null;
+		}
+		return out.subarray(0, out.length - DEFLATE_TAIL.length);
+	}
+
+	async decompress(data: Buffer, maxPayload: number): Promise<Buffer> {
+		this.inflater ??= zlib.createInflateRaw({ windowBits: 15 });
+		const out = await flushThrough(
+			this.inflater,
+			Buffer.concat([data, DEFLATE_TAIL]),
+			maxPayload,
+		);
+		if (this.params.serverNoContextTakeover) {
+			this.inflater.close();
+			this.inflater = null;
+		}
+		return out;
+	}
+
+	close(): void {
+		this.deflater?.close();
+		this.inflater?.close();
+	}
+}
+
+/** Close codes a peer may put on the wire (RFC 6455 §7.4). */
+function isValidCloseCode(code: number): boolean {
+	return (
+		(code >= 1000 &&
+			code <= 1014 &&
+			code !== 1004 &&
+			code !== 1005 &&
+			code !== 1006) ||
+		(code >= 3000 && code <= 4999)
+	);
+}
+
+function toBuffer(data: ArrayBufferLike | ArrayBufferView): Buffer {
+	return ArrayBuffer.isView(data)
+		? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+		: Buffer.from(data);
+}
+
+/**
+ * A WHATWG-compatible WebSocket client that can run through any proxy `fetch`
+ * supports. The connection comes from {@link dialTarget}, then the HTTP/1.1
+ * Upgrade handshake and RFC 6455 framing run over it, with ping/pong, the
+ * close handshake and permessage-deflate.
+ *
+ * Like Bun's WebSocket, a second argument may carry options (here including
+ * `proxy`), and binary messages arrive as Buffers unless `binaryType` says
+ * otherwise. `ping()` and `pong()` send control frames; received ones are
+ * reported as `ping`/`pong` events.
+ *
+ * @example
+ * ```ts
+ * const ws = new WebSocket("wss://stream.example.com/feed", {
+ *   proxy: "socks5://127.0.0.1:1080",
+ * });
+ * ws.onmessage = (event) => console.log(event.data);
+ * ```
+ */
+export class WebSocket extends EventTarget {
+	static readonly CONNECTING = 0;
+	static readonly OPEN = 1;
+	static readonly CLOSING = 2;
+	static readonly CLOSED = 3;
+	readonly CONNECTING = 0;
+	readonly OPEN = 1;
+	readonly CLOSING = 2;
+	readonly CLOSED = 3;
+
+	readonly url: string;
+	readyState = 0;
+	protocol = "";
+	extensions = "";
+	binaryType: BinaryType = "nodebuffer";
+	bufferedAmount = 0;
+
+	onopen: ((this: WebSocket, event: Event) => unknown) | null = null;
+	onmessage: ((this: WebSocket, event: MessageEvent) => unknown) | null = null;
+	onerror: ((this: WebSocket, event: Event) => unknown) | null = null;
+	onclose: ((this: WebSocket, event: CloseEvent) => unknown) | null = null;
+
+	private socket: net.Socket | null = null;
+	private connecting = new AbortController();
+	private maxPayload: number;
+	private deflate: PerMessageDeflate | null = null;
+
+	private buffer: Buffer = Buffer.alloc(0);
+	private fragments: Buffer[] = [];
+	private fragmentsLength = 0;
+	private messageOpcode = 0;
+	private messageCompressed = false;
+
+	/** Keeps outgoing messages (compression is async) and incoming ones in order. */
+	private outbound: Promise<void> = Promise.resolve();
+	private inbound: Promise<void> = Promise.resolve();
+
+	private closeSent = false;
+	private closeReceived = false;
+	private closeCode = 1006;
+	private closeReason = "";
+	private closeTimer: ReturnType<typeof setTimeout> | null = null;
+	private errored = false;
+
+	constructor(
+		url: string | URL,
+		protocols?: string | string[] | WebSocketOptions,
+	) {
+		super();
+		const options: WebSocketOptions =
+			typeof protocols === "string" || Array.isArray(protocols)
+				? { protocols }
+				: (protocols ?? {});
+
+		const target = new URL(url);
+		if (target.protocol === "http:") target.protocol = "ws:";
+		else if (target.protocol === "https:") target.protocol = "wss:";
+		if (target.protocol !== "ws:" && target.protocol !== "wss:") {
+			throw new DOMException(
+				`WebSocket URL must use ws: or wss:, got ${target.protocol}`,
+				"SyntaxError",
+			);
+		}
+		if (target.hash) {
+			throw new DOMException(
+				"WebSocket URL must not have a fragment",
+				"SyntaxError",
+			);
+		}
+		const offered =
+			typeof options.protocols === "string"
+				? [options.protocols]
+				: (options.protocols ?? []);
+		if (
+			new Set(offered).size !== offered.length ||
+			offered.some((p) => !/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(p))
+		) {
+			throw new DOMException("Invalid or duplicate subprotocol", "SyntaxError");
+		}
+
+		this.url = target.href;
+		this.maxPayload = options.maxPayload ?? 100 * 1024 * 1024;
+		this.open(target, offered, options).catch((err) =>
+			this.failConnecting(err),
+		);
+	}
+
+	/** Connect (through the proxy, if any), then run the Upgrade handshake. */
+	private async open(
+		target: URL,
+		offered: string[],
+		options: WebSocketOptions,
+	): Promise<void> {
+		const secure = target.protocol === "wss:";
+		const host = target.hostname.replace(/^\[|\]$/g, "");
+		const port = target.port ? Number(target.port) : secure ? 443 : 80;
+		const timeout = options.timeout ?? 30000;
+		const signal = this.connecting.signal;
+
+		const socket = (await dialTarget({
+			host,
+			port,
+			proxy: options.proxy,
+			tls: secure ? (options.tls ?? true) : false,
+			signal,
+			timeout,
+		})) as net.Socket;
+		this.socket = socket;
+		if (signal.aborted) {
+			socket.destroy();
+			throw signal.reason;
+		}
+
+		const key = randomBytes(16).toString("base64");
+		const headers = new Headers(options.headers);
+		headers.set("Host", target.host);
+		headers.set("Upgrade", "websocket");
+		headers.set("Connection", "Upgrade");
+		headers.set("Sec-WebSocket-Key", key);
+		headers.set("Sec-WebSocket-Version", "13");
+		if (offered.length > 0) {
+			headers.set("Sec-WebSocket-Protocol", offered.join(", "));
+		}
+		if (options.perMessageDeflate !== false) {
+			headers.set(
+				"Sec-WebSocket-Extensions",
+				"permessage-deflate; client_max_window_bits",
+			);
+		}
+		let head = `GET ${target.pathname}${target.search} HTTP/1.1\r\n`;
+		headers.forEach((value, name) => {
+			head += `${name}: ${value}\r\n`;
+		});
+		socket.write(`${head}\r\n`);
+
+		const response = await readResponseHead(socket, timeout, signal);
+
+		if (response.status !== 101) {
+			throw new Error(
+				`Unexpected server response: ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+			);
+		}
+		const accept = createHash("sha1")
+			.update(key + WS_GUID)
+			.digest("base64");
+		if (
+			response.headers.get("upgrade")?.toLowerCase() !== "websocket" ||
+			!/\bupgrade\b/i.test(response.headers.get("connection") ?? "") ||
+			response.headers.get("sec-websocket-accept") !== accept
+		) {
+			throw new Error("Invalid WebSocket handshake response");
+		}
+		const protocol = response.headers.get("sec-websocket-protocol");
+		if (protocol !== null && !offered.includes(protocol)) {
+			throw new Error(
+				`Server selected a subprotocol we did not offer: ${protocol}`,
+			);
+		}
+		const extensions = response.headers.get("sec-websocket-extensions");
+		if (extensions) {
+			if (options.perMessageDeflate === false) {
+				throw new Error(
+					`Server accepted an extension we did not offer: ${extensions}`,
+				);
+			}
+			this.deflate = new PerMessageDeflate(parseDeflateResponse(extensions));
+		}
+
+		this.protocol = protocol ?? "";
+		this.extensions = extensions ?? "";
+		this.readyState = WebSocket.OPEN;
+		socket.on("data", (chunk: Buffer) => this.onData(chunk));
+		socket.on("error", (err) => this.emitError(err));
+		socket.on("close", () => this.onSocketClose());
+		this.fire("open", new Event("open"));
+		if (response.rest.length > 0) this.onData(response.rest);
+	}
+
+	/** Queue a message. Strings go as text frames, everything else as binary. */
+	send(data: SendData): void {
+		if (this.readyState === WebSocket.CONNECTING) {
+			throw new DOMException("WebSocket is not open", "InvalidStateError");
+		}
+		const size =
+			typeof data === "string"
+				? Buffer.byteLength(data)
+				: data instanceof Blob
+					? data.size
+					: data.byteLength;
+		this.bufferedAmount += size;
+		if (this.readyState !== WebSocket.OPEN || this.closeSent) return;
+
+		this.outbound = this.outbound.then(async () => {
+			let payload =
+				typeof data === "string"
+					? Buffer.from(data)
+					: data instanceof Blob
+						? Buffer.from(await data.arrayBuffer())
+						: toBuffer(data);
+			const opcode = typeof data === "string" ? OP_TEXT : OP_BINARY;
+			let compressed = false;
+			if (this.deflate && payload.length >= COMPRESS_THRESHOLD) {
+				payload = await this.deflate.compress(payload);
+				compressed = true;
+			}
+			if (this.closeSent) return;
+			this.writeFrame(opcode, payload, compressed, () => {
+				this.bufferedAmount -= size;
+			});
+		});
+	}
+
+	/** Send a ping; the server's pong arrives as a `pong` event. */
+	ping(
+		data: string | ArrayBufferLike | ArrayBufferView = Buffer.alloc(0),
+	): void {
+		this.sendControl(OP_PING, data);
+	}
+
+	/** Send an unsolicited pong (pings are answered automatically). */
+	pong(
+		data: string | ArrayBufferLike | ArrayBufferView = Buffer.alloc(0),
+	): void {
+		this.sendControl(OP_PONG, data);
+	}
+
+	/**
+	 * Start the close handshake. `code` must be 1000 or in 3000–4999, and
+	 * `reason` at most 123 bytes of UTF-8.
+	 */
+	close(code?: number, reason = ""): void {
+		if (code !== undefined && code !== 1000 && (code < 3000 || code > 4999)) {
+			throw new DOMException(
+				`Close code must be 1000 or in 3000-4999, got ${code}`,
+				"InvalidAccessError",
+			);
+		}
+		const reasonBytes = Buffer.from(reason);
+		if (reasonBytes.length > 123) {
+			throw new DOMException(
+				"Close reason must be at most 123 bytes",
+				"SyntaxError",
+			);
+		}
+		if (
+			this.readyState === WebSocket.CLOSING ||
+			this.readyState === WebSocket.CLOSED
+		) {
+			return;
+		}
+		if (this.readyState === WebSocket.CONNECTING) {
+			this.readyState = WebSocket.CLOSING;
+			this.connecting.abort(
+				new Error("WebSocket was closed before the connection was established"),
+			);
+			return;
+		}
+		this.readyState = WebSocket.CLOSING;
+		this.sendClose(code, reasonBytes);
+	}
+
+	private sendControl(
+		opcode: number,
+		data: string | ArrayBufferLike | ArrayBufferView,
+	): void {
+		if (this.readyState === WebSocket.CONNECTING) {
+			throw new DOMException("WebSocket is not open", "InvalidStateError");
+		}
+		const payload =
+			typeof data === "string" ? Buffer.from(data) : toBuffer(data);
+		if (payload.length > 125) {
+			throw new RangeError("Control frame payload must be at most 125 bytes");
+		}
+		if (this.readyState !== WebSocket.OPEN || this.closeSent) return;
+		this.writeFrame(opcode, payload);
+	}
+
+	/** Queue the close frame behind pending messages and arm the close timer. */
+	private sendClose(code: number | undefined, reason: Buffer): void {
+		this.closeSent = true;
+		let payload = Buffer.alloc(0);
+		if (code !== undefined) {
+			payload = Buffer.alloc(2 + reason.length);
+			payload.writeUInt16BE(code);
+			reason.copy(payload, 2);
+		}
+		this.outbound = this.outbound.then(() =>
+			this.writeFrame(OP_CLOSE, payload),
+		);
+		this.closeTimer = setTimeout(() => this.socket?.destroy(), CLOSE_TIMEOUT);
+	}
+
+	/** Write one masked frame (client frames are always masked). */
+	private writeFrame(
+		opcode: number,
+		payload: Buffer,
+		compressed = false,
+		onWritten?: () => void,
+	): void {
+		const socket = this.socket;
+		if (!socket || socket.destroyed) return;
+		const length = payload.length;
+		const extra = length < 126 ? 0 : length < 0x10000 ? 2 : 8;
+		const frame = Buffer.alloc(2 + extra + 4 + length);
+		frame[0] = 0x80 | (compressed ? 0x40 : 0) | opcode;
+		if (extra === 0) {
+			frame[1] = 0x80 | length;
+		} else if (extra === 2) {
+			frame[1] = 0x80 | 126;
+			frame.writeUInt16BE(length, 2);
+		} else {
+			frame[1] = 0x80 | 127;
+			frame.writeBigUInt64BE(BigInt(length), 2);
+		}
+		const maskOffset = 2 + extra;
+		randomBytes(4).copy(frame, maskOffset);
+		for (let i = 0; i < length; i++) {
+			frame[maskOffset + 4 + i] =
+				(payload[i] as number) ^ (frame[maskOffset + (i & 3)] as number);
+		}
+		socket.write(frame, onWritten && (() => onWritten()));
+	}
+
+	private onData(chunk: Buffer): void {
+		this.buffer =
+			this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+		while (this.socket && !this.socket.destroyed && this.readFrame()) {}
+	}
+
+	/** Parse one frame off the buffer; false when more bytes are needed. */
+	private readFrame(): boolean {
+		const buf = this.buffer;
+		if (buf.length < 2) return false;
+		const b0 = buf[0] as number;
+		const b1 = buf[1] as number;
+		const fin = (b0 & 0x80) !== 0;
+		const rsv1 = (b0 & 0x40) !== 0;
+		const opcode = b0 & 0x0f;
+
+		let length = b1 & 0x7f;
+		let offset = 2;
+		if (length === 126) {
+			if (buf.length < 4) return false;
+			length = buf.readUInt16BE(2);
+			offset = 4;
+		} else if (length === 127) {
+			if (buf.length < 10) return false;
+			const big = buf.readBigUInt64BE(2);
+			if (big > BigInt(this.maxPayload)) {
+				this.fail(1009, "Message too big");
+				return false;
+			}
+			length = Number(big);
+			offset = 10;
+		}
+
+		if (b0 & 0x30) return this.fail(1002, "Reserved bits set");
+		if (b1 & 0x80) return this.fail(1002, "Server frames must not be masked");
+		if (opcode >= 0x8) {
+			if (opcode !== OP_CLOSE && opcode !== OP_PING && opcode !== OP_PONG) {
+				return this.fail(1002, `Unknown opcode 0x${opcode.toString(16)}`);
+			}
+			if (!fin || length > 125 || rsv1) {
+				return this.fail(1002, "Invalid control frame");
+			}
+		} else if (opcode === OP_CONTINUATION) {
+			if (this.fragments.length === 0 && this.messageOpcode === 0) {
+				return this.fail(1002, "Unexpected continuation frame");
+			}
+			if (rsv1) return this.fail(1002, "RSV1 set on a continuation frame");
+		} else if (opcode === OP_TEXT || opcode === OP_BINARY) {
+			if (this.messageOpcode !== 0) {
+				return this.fail(1002, "Expected a continuation frame");
+			}
+			if (rsv1 && !this.deflate) {
+				return this.fail(1002, "RSV1 set without permessage-deflate");
+			}
+		} else {
+			return this.fail(1002, `Unknown opcode 0x${opcode.toString(16)}`);
+		}
+		if (opcode < 0x8 && this.fragmentsLength + length > this.maxPayload) {
+			return this.fail(1009, "Message too big");
+		}
+
+		if (buf.length < offset + length) return false;
+		const payload = buf.subarray(offset, offset + length);
+		this.buffer = buf.subarray(offset + length);
+
+		switch (opcode) {
+			case OP_PING:
+				if (!this.closeSent) this.writeFrame(OP_PONG, payload);
+				this.fire(
+					"ping",
+					new MessageEvent("ping", { data: Buffer.from(payload) }),
+				);
+				return true;
+			case OP_PONG:
+				this.fire(
+					"pong",
+					new MessageEvent("pong", { data: Buffer.from(payload) }),
+				);
+				return true;
+			case OP_CLOSE:
+				this.onCloseFrame(Buffer.from(payload));
+				return true;
+		}
+
+		if (opcode !== OP_CONTINUATION) {
+			this.messageOpcode = opcode;
+			this.messageCompressed = rsv1;
+		}
+		this.fragments.push(Buffer.from(payload));
+		this.fragmentsLength += length;
+		if (!fin) return true;
+
+		const data = Buffer.concat(this.fragments);
+		const text = this.messageOpcode === OP_TEXT;
+		const compressed = this.messageCompressed;
+		this.fragments = [];
+		this.fragmentsLength = 0;
+		this.messageOpcode = 0;
+		this.inbound = this.inbound.then(() =>
+			this.deliver(data, text, compressed),
+		);
+		return true;
+	}
+
+	/** Decompress and decode a complete message, then dispatch it. */
+	private async deliver(
+		data: Buffer,
+		text: boolean,
+		compressed: boolean,
+	): Promise<void> {
+		let payload = data;
+		if (compressed && this.deflate) {
+			try {
+				payload = await this.deflate.decompress(data, this.maxPayload);
+			} catch (err) {
+				if (err instanceof RangeError) this.fail(1009, "Message too big");
+				else this.fail(1007, "Invalid compressed data");
+				return;
+			}
+		}
+		if (this.readyState === WebSocket.CLOSED) return;
+
+		let message: string | Buffer | ArrayBuffer | Blob;
+		if (text) {
+			try {
+				message = new TextDecoder("utf-8", { fatal: true }).decode(payload);
+			} catch {
+				this.fail(1007, "Invalid UTF-8 in text message");
+				return;
+			}
+		} else if (this.binaryType === "arraybuffer") {
+			message = payload.buffer.slice(
+				payload.byteOffset,
+				payload.byteOffset + payload.byteLength,
+			) as ArrayBuffer;
+		} else if (this.binaryType === "blob") {
+			message = new Blob([payload]);
+		} else {
+			message = payload;
+		}
+		this.fire(
+			"message",
+			new MessageEvent("message", {
+				data: message,
+				origin: new URL(this.url).origin,
+			}),
+		);
+	}
+
+	private onCloseFrame(payload: Buffer): void {
+		if (payload.length === 1) {
+			this.fail(1002, "Invalid close frame");
+			return;
+		}
+		let code = 1005;
+		let reason = "";
+		if (payload.length >= 2) {
+			code = payload.readUInt16BE(0);
+			if (!isValidCloseCode(code)) {
+				this.fail(1002, `Invalid close code ${code}`);
+				return;
+			}
+			try {
+				reason = new TextDecoder("utf-8", { fatal: true }).decode(
+					payload.subarray(2),
+				);
+			} catch {
+				this.fail(1007, "Invalid UTF-8 in close reason");
+				return;
+			}
+		}
+		// Messages still being decompressed are delivered before the close.
+		this.inbound = this.inbound.then(() => {
+			this.closeReceived = true;
+			this.closeCode = code;
+			this.closeReason = reason;
+			if (!this.closeSent) {
+				this.readyState = WebSocket.CLOSING;
+				this.sendClose(code === 1005 ? undefined : code, Buffer.from(reason));
+			}
+		});
+	}
+
+	/** Fail the connection: send `code` if we still can, then drop TCP. */
+	private fail(code: number, message: string): false {
+		if (!this.closeSent && this.socket && !this.socket.destroyed) {
+			this.closeSent = true;
+			const payload = Buffer.alloc(2);
+			payload.writeUInt16BE(code);
+			this.writeFrame(OP_CLOSE, payload);
+		}
+		this.readyState = WebSocket.CLOSING;
+		this.emitError(new Error(message));
+		this.socket?.destroy();
+		return false;
+	}
+
+	private failConnecting(err: unknown): void {
+		this.socket?.destroy();
+		this.emitError(err instanceof Error ? err : new Error(String(err)));
+		this.finish();
+	}
+
+	private emitError(error: Error): void {
+		if (this.errored) return;
+		this.errored = true;
+		this.fire(
+			"error",
+			new ErrorEvent("error", { error, message: error.message }),
+		);
+	}
+
+	private onSocketClose(): void {
+		this.finish();
+	}
+
+	/** Move to CLOSED and report how the connection ended. */
+	private finish(): void {
+		if (this.readyState === WebSocket.CLOSED) return;
+		// Let pending deliveries and the close frame's bookkeeping run first.
+		this.inbound.then(() => {
+			if (this.readyState === WebSocket.CLOSED) return;
+			this.readyState = WebSocket.CLOSED;
+			if (this.closeTimer) clearTimeout(this.closeTimer);
+			this.deflate?.close();
+			const wasClean = this.closeSent && this.closeReceived && !this.errored;
+			this.fire(
+				"close",
+				new CloseEvent("close", {
+					wasClean,
+					code: this.closeReceived ? this.closeCode : 1006,
+					reason: this.closeReceived ? this.closeReason : "",
+				}),
+			);
+		});
+	}
+
+	/** Dispatch to listeners and the matching `on<type>` handler. */
+	private fire(type: string, event: Event): void {
+		this.dispatchEvent(event);
+		const handler = (this as unknown as Record<string, unknown>)[`on${type}`];
+		if (typeof handler === "function") handler.call(this, event);
+	}
+}
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as net from "node:net";
+import { bindSocks5 } from "../src/bind";
+import { MockSocks5Server } from "./mock-socks5";
+
+let proxy: MockSocks5Server;
+
+beforeAll(async () => {
+	proxy = new MockSocks5Server();
+	await proxy.listen();
+});
+
+afterAll(async () => {
+	await proxy.close();
+});
+
+// Play the remote side: connect to the address the proxy bound for us.
+function connectBack(port: number): Promise<net.Socket> {
+	return new Promise((resolve, reject) => {
+		const sock = net.connect(port, "127.0.0.1");
+		sock.once("connect", () => resolve(sock));
+		sock.once("error", reject);
+	});
+}
+
+describe("bindSocks5", () => {
+	test("reports the bound address, then tunnels the inbound connection", async () => {
+		proxy.reset();
+		const bind = await bindSocks5(proxy.url, "peer.example", 21);
+		expect(proxy.requests[0]).toEqual({
+			cmd: 0x02,
+			atyp: 0x03,
+			host: "peer.example",
+			port: 21,
+		});
+		// The mock replies with 0.0.0.0, which we replace with the proxy's IP.
+		expect(bind.bound.host).toBe("127.0.0.1");
+		expect(bind.bound.port).toBeGreaterThan(0);
+
+		const peer = await connectBack(bind.bound.port);
+		const { socket, remote } = await bind.accepted;
+		expect(remote.host).toBe("127.0.0.1");
+		expect(remote.port).toBe(peer.localPort as number);
+
+		const fromPeer = new Promise<string>((r) =>
+			socket.once("data", (d) => r(d.toString())),
+		);
+		peer.write("220 hello");
+		expect(await fromPeer).toBe("220 hello");
+
+		const fromUs = new Promise<string>((r) =>
+			peer.once("data", (d) => r(d.toString())),
+		);
+		socket.write("USER anonymous");
+		expect(await fromUs).toBe("USER anonymous");
+
+		peer.destroy();
+		socket.destroy();
+	});
+
+	test("close() before the peer connects rejects `accepted`", async () => {
+		proxy.reset();
+		const bind = await bindSocks5(proxy.url, "peer.example", 21);
+		bind.close();
+		await expect(bind.accepted).rejects.toThrow(/closed before a peer/);
+	});
+
+	test("aborting while waiting for the peer rejects `accepted`", async () => {
+		proxy.reset();
+		const controller = new AbortController();
+		const bind = await bindSocks5(proxy.url, "peer.example", 21, {
+			signal: controller.signal,
+		});
+		controller.abort(new Error("gave up"));
+		await expect(bind.accepted).rejects.toThrow(/gave up/);
+	});
+
+	test("a refused BIND rejects with the reply code", async () => {
+		proxy.reset();
+		proxy.replyCode = 0x02;
+		await expect(bindSocks5(proxy.url, "peer.example", 21)).rejects.toThrow(
+			/Bind failed/,
+		);
+		proxy.reset();
+	});
+
+	test("non-SOCKS5 proxies are rejected", async () => {
+		await expect(
+			bindSocks5("socks4a://127.0.0.1:1080", "peer.example", 21),
+		).rejects.toThrow(/requires a SOCKS5 proxy/);
+	});
+});
@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as net from "node:net";
+import { openProxyChain } from "../src/chain";
+import { globalConnectionPool } from "../src/connection-pool";
+import { ProxyChainError, Socks5ReplyError } from "../src/errors";
+import { fetch, parseProxyUrl } from "../src/fetch";
+import { MockHttpProxy } from "./mock-http-proxy";
+import { MockSocks5Server } from "./mock-socks5";
+
+let entry: MockSocks5Server;
+let exit: MockSocks5Server;
+let http: MockHttpProxy;
+let target: net.Server;
+let targetPort = 0;
+
+beforeAll(async () => {
+	entry = new MockSocks5Server();
+	exit = new MockSocks5Server();
+	http = new MockHttpProxy();
+	await entry.listen();
+	await exit.listen();
+	await http.listen();
+
+	target = net.createServer((sock) => {
+		sock.on("data", (chunk) => {
+			if (chunk.includes("\r\n\r\n")) {
+				sock.write("HTTP/1.1 200 OK\r\nContent-Length: 7\r\n\r\nchained");
+			}
+		});
+		sock.on("error", () => sock.destroy());
+	});
+	await new Promise<void>((r) => target.listen(0, "127.0.0.1", () => r()));
+	targetPort = (target.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	globalConnectionPool.clear();
+	await entry.close();
+	await exit.close();
+	await http.close();
+	await new Promise<void>((r) => target.close(() => r()));
+});
+
+function resetAll() {
+	globalConnectionPool.clear();
+	entry.reset();
+	exit.reset();
+	http.reset();
+}
+
+describe("openProxyChain", () => {
+	test("each hop's handshake runs through the previous hop", async () => {
+		resetAll();
+		exit.auth = { user: "exit", password: "pw" };
+		const socket = await openProxyChain(
+			[parseProxyUrl(entry.url), parseProxyUrl(exit.url)],
+			"127.0.0.1",
+			targetPort,
+		);
+		socket.destroy();
+		// The entry proxy was asked for the exit proxy, the exit for the target.
+		expect(entry.requests).toEqual([
+			{ cmd: 0x01, atyp: 0x01, host: "127.0.0.1", port: exit.port },
+		]);
+		expect(exit.requests).toEqual([
+			{ cmd: 0x01, atyp: 0x01, host: "127.0.0.1", port: targetPort },
+		]);
+		expect(exit.credentials).toEqual([{ user: "exit", password: "pw" }]);
+	});
+
+	test("failures name the hop and keep the original error", async () => {
+		resetAll();
+		exit.replyCode = 0x02;
+		const err = await openProxyChain(
+			[parseProxyUrl(entry.url), parseProxyUrl(exit.url)],
+			"127.0.0.1",
+			targetPort,
+		).catch((e) => e);
+		expect(err).toBeInstanceOf(ProxyChainError);
+		expect(err.hop).toBe(2);
+		expect(err.hops).toBe(2);
+		expect(err.proxy).toBe(`socks5://127.0.0.1:${exit.port}`);
+		expect(err.message).toMatch(/^Proxy chain hop 2\/2 .* failed: SOCKS5/);
+		expect(err.cause).toBeInstanceOf(Socks5ReplyError);
+	});
+
+	test("an empty chain is rejected", async () => {
+		await expect(openProxyChain([], "127.0.0.1", 80)).rejects.toThrow(/empty/);
+	});
+});
+
+describe("fetch through a chain", () => {
+	test("SOCKS5 entry, SOCKS5 exit", async () => {
+		resetAll();
+		const res = await fetch(`http://127.0.0.1:${targetPort}/`, {
+			proxy: [entry.url, exit.url],
+		});
+		expect(await res.text()).toBe("chained");
+		expect(entry.requests.length).toBe(1);
+		expect(exit.requests.length).toBe(1);
+	});
+
+	test("SOCKS5 entry, HTTP CONNECT exit", async () => {
+		resetAll();
+		http.auth = { user: "u", password: "p" };
+		const res = await fetch(`http://127.0.0.1:${targetPort}/`, {
+			proxy: { url: [entry.url, http.url] },
+		});
+		expect(await res.text()).toBe("chained");
+		expect(entry.requests[0]?.port).toBe(http.port);
+		expect(http.requests[0]?.target).toBe(`127.0.0.1:${targetPort}`);
+	});
+
+	test("HTTP CONNECT entry, SOCKS5 exit", async () => {
+		resetAll();
+		const res = await fetch(`http://127.0.0.1:${targetPort}/`, {
+			proxy: [http.url, exit.url],
+		});
+		expect(await res.text()).toBe("chained");
+		expect(http.requests[0]?.target).toBe(`127.0.0.1:${exit.port}`);
+	});
+
+	test("pooled tunnels are keyed by the whole chain", async () => {
+		resetAll();
+		const url = `http://127.0.0.1:${targetPort}/`;
+		await (await fetch(url, { proxy: [entry.url, exit.url] })).text();
+		await (await fetch(url, { proxy: [entry.url, exit.url] })).text();
+		await (await fetch(url, { proxy: exit.url })).text();
+		// The repeat reused the chain; the single hop did not.
+		expect(entry.requests.length).toBe(1);
+		expect(exit.requests.length).toBe(2);
+	});
+
+	test("a failing HTTP hop is identified", async () => {
+		resetAll();
+		http.status = 403;
+		await expect(
+			fetch(`http://127.0.0.1:${targetPort}/`, {
+				proxy: [entry.url, http.url],
+			}),
+		).rejects.toThrow(
+			/Proxy chain hop 2\/2 \(http:.*\) failed: HTTP CONNECT failed: 403/,
+		);
+	});
+
+	test("a single-element array behaves like a plain URL", async () => {
+		resetAll();
+		const res = await fetch(`http://127.0.0.1:${targetPort}/`, {
+			proxy: [exit.url],
+		});
+		expect(await res.text()).toBe("chained");
+		expect(exit.requests.length).toBe(1);
+	});
+});
@@ -0,0 +1,229 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import * as net from "node:net";
+import * as tls from "node:tls";
+import { connect, type ProxySocket } from "../src/connect";
+import { MockHttpProxy } from "./mock-http-proxy";
+import { MockShadowsocksServer } from "./mock-shadowsocks";
+import { MockSocks5Server } from "./mock-socks5";
+import { cert, key } from "./tls-cert";
+
+let socks: MockSocks5Server;
+let http: MockHttpProxy;
+let ss: MockShadowsocksServer;
+let silent: net.Server;
+let echo: net.Server;
+let tlsEcho: tls.Server;
+let echoPort = 0;
+let tlsEchoPort = 0;
+let silentPort = 0;
+const silentSockets = new Set<net.Socket>();
+
+/** Line-based echo server: replies "echo: <line>" to each line. */
+function echoLines(sock: net.Socket) {
+	let buf = "";
+	sock.on("data", (chunk) => {
+		buf += chunk.toString();
+		let nl = buf.indexOf("\n");
+		while (nl !== -1) {
+			sock.write(`echo: ${buf.slice(0, nl)}\n`);
+			buf = buf.slice(nl + 1);
+			nl = buf.indexOf("\n");
+		}
+	});
+	sock.on("end", () => sock.end());
+	sock.on("error", () => sock.destroy());
+}
+
+function readLine(socket: net.Socket): Promise<string> {
+	return new Promise((resolve) => {
+		let buf = "";
+		const onData = (chunk: Buffer) => {
+			buf += chunk.toString();
+			if (buf.includes("\n")) {
+				socket.removeListener("data", onData);
+				resolve(buf.slice(0, buf.indexOf("\n")));
+			}
+		};
+		socket.on("data", onData);
+	});
+}
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	http = new MockHttpProxy();
+	ss = new MockShadowsocksServer("aes-256-gcm", "pw");
+	await Promise.all([socks.listen(), http.listen(), ss.listen()]);
+
+	// Accepts connections and never answers, to exercise the timeout.
+	silent = net.createServer((sock) => {
+		silentSockets.add(sock);
+		sock.on("close", () => silentSockets.delete(sock));
+		sock.on("error", () => {});
+	});
+	echo = net.createServer(echoLines);
+	tlsEcho = tls.createServer({ key, cert }, echoLines);
+	for (const server of [silent, echo, tlsEcho]) {
+		await new Promise<void>((r) => server.listen(0, "127.0.0.1", () => r()));
+	}
+	silentPort = (silent.address() as net.AddressInfo).port;
+	echoPort = (echo.address() as net.AddressInfo).port;
+	tlsEchoPort = (tlsEcho.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	for (const sock of silentSockets) sock.destroy();
+	await Promise.all([socks.close(), http.close(), ss.close()]);
+	for (const server of [silent, echo, tlsEcho]) {
+		await new Promise<void>((r) => server.close(() => r()));
+	}
+});
+
+beforeEach(() => {
+	socks.reset();
+	http.reset();
+	ss.reset();
+	for (const proxy of [socks, http, ss]) {
+		proxy.hosts.set("target.test", "127.0.0.1");
+	}
+});
+
+describe("connect", () => {
+	test("returns a ready socket through each proxy type", async () => {
+		for (const proxy of [socks.url, http.url, ss.url]) {
+			const socket = await connect({
+				host: "target.test",
+				port: echoPort,
+				proxy,
+			});
+			socket.write("ping\n");
+			expect(await readLine(socket)).toBe("echo: ping");
+			socket.destroy();
+		}
+		expect(socks.requests[0]?.host).toBe("target.test");
+		expect(http.requests[0]?.target).toBe(`target.test:${echoPort}`);
+		expect(ss.requests[0]?.host).toBe("target.test");
+	});
+
+	test("accepts proxy options and chains", async () => {
+		const socket = await connect({
+			host: "target.test",
+			port: echoPort,
+			proxy: { url: [socks.url, http.url] },
+		});
+		socket.write("chained\n");
+		expect(await readLine(socket)).toBe("echo: chained");
+		socket.destroy();
+		expect(socks.requests[0]?.port).toBe(http.port);
+	});
+
+	test("wraps the tunnel in TLS to the target", async () => {
+		const socket = await connect({
+			host: "target.test",
+			port: tlsEchoPort,
+			proxy: socks.url,
+			tls: { ca: cert },
+		});
+		expect(socket).toBeInstanceOf(tls.TLSSocket);
+		socket.write("secret\n");
+		expect(await readLine(socket)).toBe("echo: secret");
+		socket.destroy();
+	});
+
+	test("rejects when the setup exceeds the timeout", async () => {
+		const started = Date.now();
+		await expect(
+			connect({
+				host: "target.test",
+				port: echoPort,
+				proxy: `socks5://127.0.0.1:${silentPort}`,
+				timeout: 200,
+			}),
+		).rejects.toMatchObject({
+			name: "TotalTimeoutError",
+			phase: "total",
+			timeout: 200,
+		});
+		expect(Date.now() - started).toBeLessThan(5000);
+	});
+
+	test("rejects with the abort reason", async () => {
+		const controller = new AbortController();
+		const pending = connect({
+			host: "target.test",
+			port: echoPort,
+			proxy: `socks5://127.0.0.1:${silentPort}`,
+			signal: controller.signal,
+		});
+		controller.abort(new Error("stop"));
+		await expect(pending).rejects.toThrow("stop");
+	});
+});
+
+describe("connect with a socket handler", () => {
+	test("delivers events Bun.connect-style", async () => {
+		const events: string[] = [];
+		let resolveClosed: () => void = () => {};
+		const closed = new Promise<void>((r) => {
+			resolveClosed = r;
+		});
+
+		const socket = await connect({
+			host: "target.test",
+			port: echoPort,
+			proxy: socks.url,
+			data: { name: "client" },
+			socket: {
+				open(s: ProxySocket<{ name: string }>) {
+					events.push(`open ${s.data.name}`);
+				},
+				data(s, data) {
+					events.push(`data ${data.toString().trim()}`);
+					s.end();
+				},
+				end() {
+					events.push("end");
+				},
+				close(_s, error) {
+					events.push(`close ${error ?? "clean"}`);
+					resolveClosed();
+				},
+			},
+		});
+
+		expect(events).toEqual(["open client"]);
+		expect(socket.write("hi\n")).toBe(3);
+		await closed;
+		expect(events).toEqual([
+			"open client",
+			"data echo: hi",
+			"end",
+			"close clean",
+		]);
+		expect(socket.readyState).toBe("closed");
+	});
+
+	test("write accepts byte ranges of typed arrays", async () => {
+		const received: string[] = [];
+		const socket = await connect({
+			host: "target.test",
+			port: echoPort,
+			proxy: http.url,
+			socket: {
+				data(_s, data) {
+					received.push(data.toString());
+				},
+			},
+		});
+		expect(socket.write(new TextEncoder().encode("xxpart\nyy"), 2, 5)).toBe(5);
+		while (received.length === 0) await Bun.sleep(5);
+		expect(received.join("")).toBe("echo: part\n");
+		socket.terminate();
+	});
+});
@@ -0,0 +1,193 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import type { Server } from "bun";
+import { globalConnectionPool } from "../src/connection-pool";
+import { fetch } from "../src/fetch";
+import {
+	DnsCache,
+	type ResolvedAddress,
+	type Resolver,
+	resolveAll,
+} from "../src/lookup";
+import { MockHttpProxy } from "./mock-http-proxy";
+import { MockSocks5Server } from "./mock-socks5";
+import { cert, key } from "./tls-cert";
+
+let socks: MockSocks5Server;
+let http: Server<undefined>;
+let https: Server<undefined>;
+
+/** Answers from `table`, counting the queries it gets. */
+function tableResolver(table: Record<string, ResolvedAddress[]>) {
+	const queries: string[] = [];
+	const resolver: Resolver = async (hostname) => {
+		queries.push(hostname);
+		return table[hostname] ?? [];
+	};
+	return { resolver, queries };
+}
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	await socks.listen();
+	const echoHost = (req: Request) =>
+		new Response(`host=${req.headers.get("host")}`);
+	http = Bun.serve({ hostname: "127.0.0.1", port: 0, fetch: echoHost });
+	https = Bun.serve({
+		hostname: "127.0.0.1",
+		port: 0,
+		tls: { cert, key },
+		fetch: echoHost,
+	});
+});
+
+afterAll(async () => {
+	globalConnectionPool.clear();
+	await socks.close();
+	http.stop(true);
+	https.stop(true);
+});
+
+beforeEach(() => {
+	socks.reset();
+});
+
+describe("DnsCache", () => {
+	test("reuses an answer until its TTL runs out", async () => {
+		const { resolver, queries } = tableResolver({
+			"a.test": [{ address: "192.0.2.1", family: 4, ttl: 0.05 }],
+		});
+		const cache = new DnsCache();
+		await cache.lookup("a.test", resolver);
+		await cache.lookup("A.test", resolver);
+		expect(queries).toHaveLength(1);
+		await Bun.sleep(60);
+		await cache.lookup("a.test", resolver);
+		expect(queries).toHaveLength(2);
+	});
+
+	test("shares one query between concurrent lookups", async () => {
+		const { resolver, queries } = tableResolver({
+			"a.test": [{ address: "192.0.2.1", family: 4 }],
+		});
+		const cache = new DnsCache();
+		await Promise.all([
+			cache.lookup("a.test", resolver),
+			cache.lookup("a.test", resolver),
+		]);
+		expect(queries).toEqual(["a.test"]);
+	});
+
+	test("does not keep failures", async () => {
+		let calls = 0;
+		const cache = new DnsCache();
+		const flaky: Resolver = async () => {
+			if (calls++ === 0) throw new Error("SERVFAIL");
+			return [{ address: "192.0.2.1", family: 4 }];
+		};
+		await expect(cache.lookup("a.test", flaky)).rejects.toThrow("SERVFAIL");
+		expect(await cache.lookup("a.test", flaky)).toHaveLength(1);
+	});
+
+	test("does not keep empty answers", async () => {
+		let calls = 0;
+		const cache = new DnsCache();
+		const late: Resolver = async () =>
+			calls++ === 0 ? [] : [{ address: "192.0.2.1", family: 4 }];
+		expect(await cache.lookup("a.test", late)).toEqual([]);
+		expect(await cache.lookup("a.test", late)).toHaveLength(1);
+		expect(calls).toBe(2);
+	});
+});
+
+describe("resolveAll", () => {
+	test("prefers a host:port pin over a host pin", async () => {
+		const hosts = { "a.test:443": "192.0.2.2", "a.test": ["192.0.2.1"] };
+		expect(await resolveAll("a.test", 443, { hosts })).toEqual([
+			{ address: "192.0.2.2", family: 4 },
+		]);
+		expect(await resolveAll("a.test", 80, { hosts })).toEqual([
+			{ address: "192.0.2.1", family: 4 },
+		]);
+	});
+
+	test("rejects pins that are not addresses", async () => {
+		await expect(
+			resolveAll("a.test", 80, { hosts: { "a.test": "b.test" } }),
+		).rejects.toThrow("Invalid address pinned for a.test: b.test");
+	});
+
+	test("treats an empty answer as a missing name", async () => {
+		const { resolver } = tableResolver({});
+		await expect(resolveAll("a.test", 80, { resolver })).rejects.toMatchObject({
+			code: "ENOTFOUND",
+		});
+	});
+});
+
+describe("fetch with dns options", () => {
+	test("resolves the target with the custom resolver", async () => {
+		const { resolver, queries } = tableResolver({
+			"target.test": [{ address: "127.0.0.1", family: 4 }],
+		});
+		const res = await fetch(`http://target.test:${http.port}/`, {
+			proxy: { url: socks.url, resolveDnsLocally: true, dns: { resolver } },
+		});
+		expect(await res.text()).toBe(`host=target.test:${http.port}`);
+		expect(queries).toEqual(["target.test"]);
+		expect(socks.requests[0]).toMatchObject({ atyp: 0x01, host: "127.0.0.1" });
+	});
+
+	test("resolves the proxy host with the custom resolver", async () => {
+		const { resolver, queries } = tableResolver({
+			"proxy.test": [{ address: "127.0.0.1", family: 4 }],
+		});
+		const res = await fetch(`http://127.0.0.1:${http.port}/`, {
+			proxy: { url: `socks5://proxy.test:${socks.port}`, dns: { resolver } },
+		});
+		expect(res.status).toBe(200);
+		expect(queries).toEqual(["proxy.test"]);
+	});
+
+	test("sends a pinned target to the proxy as its address", async () => {
+		const res = await fetch(`http://target.test:${http.port}/`, {
+			proxy: socks.url,
+			dns: { hosts: { [`target.test:${http.port}`]: "127.0.0.1" } },
+		});
+		expect(await res.text()).toBe(`host=target.test:${http.port}`);
+		expect(socks.requests[0]).toMatchObject({ atyp: 0x01, host: "127.0.0.1" });
+	});
+
+	test("puts a pinned address in the request line of a forwarded request", async () => {
+		const httpProxy = new MockHttpProxy();
+		await httpProxy.listen();
+		try {
+			const res = await fetch(`http://target.test:${http.port}/path?q=1`, {
+				proxy: httpProxy.url,
+				dns: { hosts: { "target.test": "127.0.0.1" } },
+			});
+			expect(await res.text()).toBe(`host=target.test:${http.port}`);
+			expect(httpProxy.requests[0]?.target).toBe(
+				`http://127.0.0.1:${http.port}/path?q=1`,
+			);
+		} finally {
+			globalConnectionPool.clear();
+			await httpProxy.close();
+		}
+	});
+
+	test("pins the target of a direct request, keeping its name for TLS", async () => {
+		const res = await fetch(`https://target.test:${https.port}/`, {
+			proxy: null,
+			tls: { ca: cert },
+			dns: { hosts: { "target.test": "127.0.0.1" } },
+		});
+		expect(await res.text()).toBe(`host=target.test:${https.port}`);
+	});
+});
@@ -0,0 +1,259 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	spyOn,
+	test,
+} from "bun:test";
+import * as dns from "node:dns";
+import type { Server } from "bun";
+import { globalConnectionPool } from "../src/connection-pool";
+import { dohResolver, encodeDnsQuery, parseDnsResponse } from "../src/doh";
+import { fetch } from "../src/fetch";
+import { globalDnsCache } from "../src/lookup";
+import { MockSocks5Server } from "./mock-socks5";
+
+let socks: MockSocks5Server;
+let target: Server<undefined>;
+let doh: Server<undefined>;
+/** Every query the DoH server got: method, name and record type. */
+const queries: { method: string; name: string; type: number }[] = [];
+/** The DoH server's zone: A and AAAA records by name. */
+const zone: Record<string, { a?: string[]; aaaa?: string[] }> = {};
+
+/** Read the question of a DNS query (uncompressed, as clients send it). */
+function question(message: Buffer) {
+	const labels: string[] = [];
+	let offset = 12;
+	for (let length = message[offset]; length; length = message[offset]) {
+		labels.push(message.toString("ascii", offset + 1, offset + 1 + length));
+		offset += 1 + length;
+	}
+	return { name: labels.join("."), type: message.readUInt16BE(offset + 1) };
+}
+
+/** A response to `query` carrying `records`, with `rcode`. */
+function answer(
+	query: Buffer,
+	records: { type: number; rdata: number[] }[],
+	rcode = 0,
+): Buffer {
+	const header = Buffer.from(query.subarray(0, 12));
+	header.writeUInt16BE(0x8180 | rcode, 2); // QR, RD, RA
+	header.writeUInt16BE(records.length, 6);
+	const body = records.map(({ type, rdata }) => {
+		const rr = Buffer.alloc(12 + rdata.length);
+		rr.writeUInt16BE(0xc00c, 0); // pointer to the question's name
+		rr.writeUInt16BE(type, 2);
+		rr.writeUInt16BE(1, 4);
+		rr.writeUInt32BE(300, 6);
+		rr.writeUInt16BE(rdata.length, 10);
+		rr.set(rdata, 12);
+		return rr;
+	});
+	return Buffer.concat([header, query.subarray(12), ...body]);
+}
+
+function ipv6Bytes(address: string): number[] {
+	const [head = "", tail = ""] = address.split("::");
+	const left = head ? head.split(":") : [];
+	const right = tail ? tail.split(":") : [];
+	const groups = [
+		...left,
+		...Array(8 - left.length - right.length).fill("0"),
+		...right,
+	];
+	return groups.flatMap((g) => [parseInt(g, 16) >> 8, parseInt(g, 16) & 0xff]);
+}
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	await socks.listen();
+	target = Bun.serve({
+		hostname: "127.0.0.1",
+		port: 0,
+		fetch: (req) => new Response(`host=${req.headers.get("host")}`),
+	});
+	doh = Bun.serve({
+		hostname: "127.0.0.1",
+		port: 0,
+		async fetch(req) {
+			const url = new URL(req.url);
+			const message =
+				req.method === "POST"
+					? Buffer.from(await req.arrayBuffer())
+					: Buffer.from(url.searchParams.get("dns") ?? "", "base64url");
+			const { name, type } = question(message);
+			queries.push({ method: req.method, name, type });
+			const entry = zone[name];
+			const records = !entry
+				? []
+				: type === 1
+					? (entry.a ?? []).map((ip) => ({
+							type,
+							rdata: ip.split(".").map(Number),
+						}))
+					: (entry.aaaa ?? []).map((ip) => ({ type, rdata: ipv6Bytes(ip) }));
+			return new Response(answer(message, records, entry ? 0 : 3), {
+				headers: { "content-type": "application/dns-message" },
+			});
+		},
+	});
+	zone["target.test"] = { a: ["127.0.0.1"], aaaa: ["2001:db8::1"] };
+	zone["v6.test"] = { aaaa: ["2001:db8::6"] };
+});
+
+afterAll(async () => {
+	globalConnectionPool.clear();
+	await socks.close();
+	target.stop(true);
+	doh.stop(true);
+});
+
+beforeEach(() => {
+	socks.reset();
+	queries.length = 0;
+	globalDnsCache.clear();
+});
+
+describe("DNS wire format", () => {
+	test("encodes a recursive query with ID 0", () => {
+		const query = Buffer.from(encodeDnsQuery("example.com", 28));
+		expect(query.readUInt16BE(0)).toBe(0);
+		expect(query.readUInt16BE(2)).toBe(0x0100);
+		expect(question(query)).toEqual({ name: "example.com", type: 28 });
+	});
+
+	test("reads A and AAAA records with their TTLs", () => {
+		const query = Buffer.from(encodeDnsQuery("a.test", 1));
+		const response = answer(query, [
+			{ type: 5, rdata: [0] }, // a CNAME, skipped
+			{ type: 1, rdata: [192, 0, 2, 1] },
+			{ type: 28, rdata: ipv6Bytes("2001:db8::1") },
+		]);
+		expect(parseDnsResponse(response, "a.test")).toEqual([
+			{ address: "192.0.2.1", family: 4, ttl: 300 },
+			{ address: "2001:db8::1", family: 6, ttl: 300 },
+		]);
+	});
+
+	test("reports NXDOMAIN as a missing name", () => {
+		const query = Buffer.from(encodeDnsQuery("a.test", 1));
+		expect(() => parseDnsResponse(answer(query, [], 3), "a.test")).toThrow(
+			expect.objectContaining({ code: "ENOTFOUND" }),
+		);
+		expect(() => parseDnsResponse(answer(query, [], 2), "a.test")).toThrow(
+			"DNS query for a.test failed: SERVFAIL",
+		);
+	});
+});
+
+describe("dohResolver", () => {
+	test("asks for both families with GET by default", async () => {
+		const resolve = dohResolver(`http://127.0.0.1:${doh.port}/dns-query`);
+		const addresses = await resolve("target.test");
+		expect(addresses.map((a) => a.address).sort()).toEqual([
+			"127.0.0.1",
+			"2001:db8::1",
+		]);
+		expect(queries.map((q) => `${q.method} ${q.type}`).sort()).toEqual([
+			"GET 1",
+			"GET 28",
+		]);
+	});
+
+	test("sends the query as the body with POST", async () => {
+		const resolve = dohResolver({
+			url: `http://127.0.0.1:${doh.port}/dns-query`,
+			method: "POST",
+		});
+		await resolve("target.test");
+		expect(queries.every((q) => q.method === "POST")).toBe(true);
+	});
+
+	test("fails on a response that is not a DNS message", async () => {
+		const resolve = dohResolver(`http://127.0.0.1:${target.port}/`);
+		await expect(resolve("target.test")).rejects.toThrow(
+			"DoH query for target.test failed: 200 text/plain",
+		);
+	});
+});
+
+describe("fetch with dns.doh", () => {
+	test("resolves the target through the proxy and connects by address", async () => {
+		const lookup = spyOn(dns, "lookup");
+		try {
+			const proxy = {
+				url: socks.url,
+				resolveDnsLocally: true,
+				dns: { doh: `http://127.0.0.1:${doh.port}/dns-query` },
+			};
+			for (let i = 0; i < 2; i++) {
+				const res = await fetch(`http://target.test:${target.port}/`, {
+					proxy,
+				});
+				expect(await res.text()).toBe(`host=target.test:${target.port}`);
+			}
+			expect(lookup).not.toHaveBeenCalled();
+		} finally {
+			lookup.mockRestore();
+		}
+		// One query per family, answered once and then served from the cache.
+		expect(queries).toHaveLength(2);
+		const connects = socks.requests.map((r) => `${r.atyp} ${r.host}:${r.port}`);
+		expect(connects).toContain(`1 127.0.0.1:${doh.port}`);
+		expect(connects).toContain(`1 127.0.0.1:${target.port}`);
+		expect(connects).not.toContain(`3 target.test:${target.port}`);
+	});
+
+	test("uses the AAAA answer for an IPv6 CONNECT", async () => {
+		await fetch(`http://v6.test:${target.port}/`, {
+			proxy: {
+				url: socks.url,
+				resolveDnsLocally: true,
+				family: "ipv6first",
+				dns: {
+					doh: {
+						url: `http://127.0.0.1:${doh.port}/dns-query`,
+						method: "POST",
+					},
+				},
+			},
+			// 2001:db8::/32 is unroutable; only the CONNECT request matters.
+			timeouts: { handshake: 100 },
+		}).catch(() => {});
+		expect(socks.requests).toContainEqual(
+			expect.objectContaining({ atyp: 0x04, host: "2001:db8:0:0:0:0:0:6" }),
+		);
+	});
+
+	test("asks again after an answer with no records", async () => {
+		zone["late.test"] = {};
+		const proxy = {
+			url: socks.url,
+			resolveDnsLocally: true,
+			dns: { doh: `http://127.0.0.1:${doh.port}/dns-query` },
+		};
+		await expect(
+			fetch(`http://late.test:${target.port}/`, { proxy }),
+		).rejects.toMatchObject({ code: "ENOTFOUND" });
+		zone["late.test"] = { a: ["127.0.0.1"] };
+		const res = await fetch(`http://late.test:${target.port}/`, { proxy });
+		expect(await res.text()).toBe(`host=late.test:${target.port}`);
+		expect(queries).toHaveLength(4);
+	});
+
+	test("passes a missing name through as ENOTFOUND", async () => {
+		await expect(
+			fetch(`http://missing.test:${target.port}/`, {
+				proxy: {
+					url: socks.url,
+					resolveDnsLocally: true,
+					dns: { doh: `http://127.0.0.1:${doh.port}/dns-query` },
+				},
+			}),
+		).rejects.toMatchObject({ code: "ENOTFOUND" });
+	});
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { redactProxy, Socks5ReplyError } from "../src/errors";
+
+describe("redactProxy", () => {
+	test("hides credentials but keeps the endpoint", () => {
+		expect(
+			redactProxy({
+				protocol: "socks5",
+				host: "proxy.example",
+				port: 1080,
+				user: "alice",
+				password: "s3cret",
+			}),
+		).toBe("socks5://***@proxy.example:1080");
+	});
+
+	test("omits the userinfo when there are no credentials", () => {
+		expect(redactProxy({ protocol: "socks5", host: "::1", port: 9050 })).toBe(
+			"socks5://[::1]:9050",
+		);
+	});
+});
+
+describe("Socks5ReplyError", () => {
+	test.each([
+		[0x01, "Socks5GeneralFailureError", true],
+		[0x02, "Socks5RulesetDeniedError", true],
+		[0x03, "Socks5NetworkUnreachableError", true],
+		[0x04, "Socks5HostUnreachableError", true],
+		[0x05, "Socks5ConnectionRefusedError", false],
+		[0x06, "Socks5TtlExpiredError", true],
+		[0x07, "Socks5CommandNotSupportedError", true],
+		[0x08, "Socks5AddressTypeNotSupportedError", true],
+		[0xf0, "TorOnionDescriptorNotFoundError", false],
+		[0xf1, "TorOnionDescriptorInvalidError", false],
+		[0xf2, "TorOnionIntroductionFailedError", true],
+		[0xf3, "TorOnionRendezvousFailedError", true],
+		[0xf4, "TorOnionMissingClientAuthError", false],
+		[0xf5, "TorOnionWrongClientAuthError", false],
+		[0xf6, "TorOnionInvalidAddressError", false],
+		[0xf7, "TorOnionIntroductionTimedOutError", true],
+	])("code %i is %s", (code, name, retryable) => {
+		const err = new Socks5ReplyError(
+			"Connect",
+			code,
+			"socks5://127.0.0.1:9050",
+			"example.onion:80",
+		);
+		expect(err).toBeInstanceOf(Error);
+		expect(err.name).toBe(name);
+		expect(err.code).toBe(code);
+		expect(err.retryable).toBe(retryable);
+	});
+
+	test("message names the command, reason, target and proxy", () => {
+		const err = new Socks5ReplyError(
+			"Connect",
+			0x04,
+			"socks5://***@proxy:1080",
+			"example.com:443",
+		);
+		expect(err.message).toBe(
+			"SOCKS5 Connect failed: Host unreachable (0x04) [target example.com:443, proxy socks5://***@proxy:1080]",
+		);
+	});
+
+	test("unknown codes keep the generic name and are not retryable", () => {
+		const err = new Socks5ReplyError("Bind", 0x42, "socks5://p:1", "h:1");
+		expect(err.name).toBe("Socks5ReplyError");
+		expect(err.retryable).toBe(false);
+		expect(err.message).toContain("Unknown reply code (0x42)");
+	});
+});
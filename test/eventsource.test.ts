@@ -0,0 +1,261 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import * as net from "node:net";
+import * as tls from "node:tls";
+import { EventSource } from "../src/eventsource";
+import { MockHttpProxy } from "./mock-http-proxy";
+import { MockSocks5Server } from "./mock-socks5";
+import { cert, key } from "./tls-cert";
+
+let socks: MockSocks5Server;
+let http: MockHttpProxy;
+let server: net.Server;
+let tlsServer: tls.Server;
+let port = 0;
+let tlsPort = 0;
+/** Path, Last-Event-ID and Authorization of every request, in order. */
+const requests: {
+	path: string;
+	lastEventId: string | null;
+	authorization: string | null;
+}[] = [];
+const open = new Set<net.Socket>();
+
+const STREAM_HEAD =
+	"HTTP/1.1 200 OK\r\nContent-Type: text/event-stream; charset=utf-8\r\n";
+
+/** Write `text` as one chunk of a chunked body. */
+function chunk(sock: net.Socket, text: string) {
+	const bytes = Buffer.from(text);
+	sock.write(`${bytes.length.toString(16)}\r\n`);
+	sock.write(bytes);
+	sock.write("\r\n");
+}
+
+/**
+ * SSE server: `/events` streams a scripted feed (chunked, split mid-line) and
+ * stays open, `/resume` ends the first stream after an id so the client
+ * reconnects, and the rest exercise redirects and refusals.
+ */
+function handle(sock: net.Socket) {
+	open.add(sock);
+	sock.on("close", () => open.delete(sock));
+	sock.on("error", () => sock.destroy());
+	sock.once("data", async (data) => {
+		const head = data.toString("latin1");
+		const path = head.slice(4, head.indexOf(" ", 4));
+		const lastEventId =
+			/^last-event-id: (.*)$/im.exec(head)?.[1]?.trim() ?? null;
+		const authorization =
+			/^authorization: (.*)$/im.exec(head)?.[1]?.trim() ?? null;
+		requests.push({ path, lastEventId, authorization });
+
+		switch (path) {
+			case "/events":
+				sock.write(`${STREAM_HEAD}Transfer-Encoding: chunked\r\n\r\n`);
+				chunk(sock, "\ufeff: comment\n\ndata: hel");
+				await Bun.sleep(10);
+				chunk(sock, "lo\r");
+				chunk(sock, "\n\nevent: update\ndata: line 1\rdata: line 2\n");
+				chunk(sock, "id: 42\n\nid\ndata:no space\n\n");
+				return;
+			case "/resume":
+				sock.write(`${STREAM_HEAD}Connection: close\r\n\r\n`);
+				if (lastEventId === null) {
+					sock.end("retry: 20\nid: 7\ndata: first\n\n");
+				} else {
+					sock.write("data: second\n\n");
+				}
+				return;
+			case "/redirect":
+				sock.end("HTTP/1.1 302 Found\r\nLocation: /events\r\n\r\n");
+				return;
+			case "/elsewhere":
+				sock.end(
+					`HTTP/1.1 302 Found\r\nLocation: http://other.test:${port}/redirect\r\n\r\n`,
+				);
+				return;
+			case "/ftp":
+				sock.end(
+					"HTTP/1.1 302 Found\r\nLocation: ftp://target.test/events\r\n\r\n",
+				);
+				return;
+			case "/json":
+				sock.end(
+					"HTTP/1.1 200 OK\r\nContent-Type: application/json\r\nContent-Length: 2\r\n\r\n{}",
+				);
+				return;
+			default:
+				sock.end("HTTP/1.1 204 No Content\r\n\r\n");
+		}
+	});
+}
+
+function collect(source: EventSource, type: string, count: number) {
+	const events: MessageEvent[] = [];
+	return new Promise<MessageEvent[]>((resolve) => {
+		source.addEventListener(type, (event) => {
+			events.push(event as MessageEvent);
+			if (events.length === count) resolve(events);
+		});
+	});
+}
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	http = new MockHttpProxy();
+	await Promise.all([socks.listen(), http.listen()]);
+	server = net.createServer(handle);
+	tlsServer = tls.createServer({ key, cert }, handle);
+	await new Promise<void>((r) => server.listen(0, "127.0.0.1", () => r()));
+	await new Promise<void>((r) => tlsServer.listen(0, "127.0.0.1", () => r()));
+	port = (server.address() as net.AddressInfo).port;
+	tlsPort = (tlsServer.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	for (const sock of open) sock.destroy();
+	await Promise.all([socks.close(), http.close()]);
+	await new Promise<void>((r) => server.close(() => r()));
+	await new Promise<void>((r) => tlsServer.close(() => r()));
+});
+
+beforeEach(() => {
+	socks.reset();
+	http.reset();
+	socks.hosts.set("target.test", "127.0.0.1");
+	socks.hosts.set("other.test", "127.0.0.1");
+	http.hosts.set("target.test", "127.0.0.1");
+	requests.length = 0;
+});
+
+describe("EventSource", () => {
+	test("parses a chunked stream through a SOCKS5 proxy", async () => {
+		const source = new EventSource(`http://target.test:${port}/events`, {
+			proxy: socks.url,
+		});
+		const opened = new Promise((r) => {
+			source.onopen = r;
+		});
+		const messages = collect(source, "message", 2);
+		const updates = collect(source, "update", 1);
+
+		await opened;
+		expect(source.readyState).toBe(EventSource.OPEN);
+		const [hello, noSpace] = await messages;
+		const [update] = await updates;
+		source.close();
+
+		expect(hello?.data).toBe("hello");
+		expect(hello?.lastEventId).toBe("");
+		expect(hello?.origin).toBe(`http://target.test:${port}`);
+		expect(update?.data).toBe("line 1\nline 2");
+		expect(update?.lastEventId).toBe("42");
+		// A bare "id" field resets the ID.
+		expect(noSpace?.data).toBe("no space");
+		expect(noSpace?.lastEventId).toBe("");
+		expect(socks.requests[0]?.host).toBe("target.test");
+		expect(source.readyState).toBe(EventSource.CLOSED);
+	});
+
+	test("reconnects after retry: with Last-Event-ID", async () => {
+		const source = new EventSource(`http://target.test:${port}/resume`, {
+			proxy: socks.url,
+		});
+		let errors = 0;
+		source.onerror = () => {
+			errors++;
+			expect(source.readyState).toBe(EventSource.CONNECTING);
+		};
+		const [first, second] = await collect(source, "message", 2);
+		source.close();
+
+		expect(first?.data).toBe("first");
+		expect(second?.data).toBe("second");
+		expect(second?.lastEventId).toBe("7");
+		expect(errors).toBe(1);
+		expect(requests).toEqual([
+			{ path: "/resume", lastEventId: null, authorization: null },
+			{ path: "/resume", lastEventId: "7", authorization: null },
+		]);
+	});
+
+	test("follows redirects over TLS through an HTTP proxy", async () => {
+		const source = new EventSource(`https://target.test:${tlsPort}/redirect`, {
+			proxy: http.url,
+			tls: { ca: cert },
+		});
+		const [message] = await collect(source, "message", 1);
+		source.close();
+		expect(message?.data).toBe("hello");
+		expect(requests.map((r) => r.path)).toEqual(["/redirect", "/events"]);
+		expect(http.requests.map((r) => r.target)).toEqual([
+			`target.test:${tlsPort}`,
+			`target.test:${tlsPort}`,
+		]);
+	});
+
+	test("drops credentials on a cross-origin redirect", async () => {
+		const source = new EventSource(`http://target.test:${port}/elsewhere`, {
+			proxy: socks.url,
+			headers: { Authorization: "Bearer secret" },
+		});
+		const [message] = await collect(source, "message", 1);
+		source.close();
+		expect(message?.data).toBe("hello");
+		expect(requests).toEqual([
+			{ path: "/elsewhere", lastEventId: null, authorization: "Bearer secret" },
+			// Same-origin hop on the new origin: still not sent.
+			{ path: "/redirect", lastEventId: null, authorization: null },
+			{ path: "/events", lastEventId: null, authorization: null },
+		]);
+		expect(socks.requests.map((r) => r.host)).toEqual([
+			"target.test",
+			"other.test",
+			"other.test",
+		]);
+	});
+
+	test("refuses redirects to non-http URLs", async () => {
+		const source = new EventSource(`http://target.test:${port}/ftp`, {
+			proxy: socks.url,
+		});
+		const error = await new Promise<ErrorEvent>((r) => {
+			source.onerror = (event) => r(event as ErrorEvent);
+		});
+		expect(source.readyState).toBe(EventSource.CLOSED);
+		expect(error.message).toMatch("Refusing redirect to ftp: URL");
+		expect(requests).toHaveLength(1);
+	});
+
+	test("fails for good on a non-event-stream response", async () => {
+		for (const path of ["/json", "/nothing"]) {
+			const source = new EventSource(`http://target.test:${port}${path}`, {
+				proxy: socks.url,
+			});
+			const error = await new Promise<ErrorEvent>((r) => {
+				source.onerror = (event) => r(event as ErrorEvent);
+			});
+			expect(source.readyState).toBe(EventSource.CLOSED);
+			expect(error.message).toMatch(
+				path === "/json"
+					? "Expected text/event-stream, got application/json"
+					: "Unexpected server response: 204",
+			);
+		}
+		await Bun.sleep(50);
+		expect(requests).toHaveLength(2);
+	});
+
+	test("rejects non-http URLs", () => {
+		expect(() => new EventSource("ftp://target.test/")).toThrow(
+			"must use http: or https:",
+		);
+	});
+});
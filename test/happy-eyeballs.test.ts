@@ -0,0 +1,170 @@
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	spyOn,
+	test,
+} from "bun:test";
+import * as dns from "node:dns";
+import * as net from "node:net";
+import { ProxyConnectError } from "../src/errors";
+import { fetch } from "../src/fetch";
+import {
+	connectHappyEyeballs,
+	interleaveAddresses,
+} from "../src/happy-eyeballs";
+import { MockSocks5Server } from "./mock-socks5";
+
+let socks: MockSocks5Server;
+let target: net.Server;
+let socksPort = 0;
+let targetPort = 0;
+let closedPort = 0;
+
+/** Make `dns.lookup` answer `proxy.test` with `addresses`, in that order. */
+function resolveProxyTo(addresses: string[]) {
+	const lookup = dns.lookup as unknown as (...args: unknown[]) => void;
+	return spyOn(dns, "lookup").mockImplementation(((
+		host: string,
+		options: unknown,
+		callback: (err: Error | null, addresses: dns.LookupAddress[]) => void,
+	) => {
+		if (host !== "proxy.test") return lookup(host, options, callback);
+		callback(
+			null,
+			addresses.map((address) => ({ address, family: net.isIP(address) })),
+		);
+	}) as unknown as typeof dns.lookup);
+}
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	await socks.listen();
+	socksPort = Number(new URL(socks.url).port);
+	target = net.createServer((sock) => {
+		sock.on("error", () => sock.destroy());
+		sock.once("data", () =>
+			sock.end("HTTP/1.1 200 OK\r\nContent-Length: 2\r\n\r\nok"),
+		);
+	});
+	await new Promise<void>((r) => target.listen(0, "127.0.0.1", () => r()));
+	targetPort = (target.address() as net.AddressInfo).port;
+
+	// A port that was just freed refuses connections.
+	const probe = net.createServer();
+	await new Promise<void>((r) => probe.listen(0, "127.0.0.1", () => r()));
+	closedPort = (probe.address() as net.AddressInfo).port;
+	await new Promise<void>((r) => probe.close(() => r()));
+});
+
+afterAll(async () => {
+	await socks.close();
+	await new Promise<void>((r) => target.close(() => r()));
+});
+
+afterEach(() => {
+	socks.reset();
+});
+
+describe("interleaveAddresses", () => {
+	test("alternates families, starting with the first answer's", () => {
+		const ordered = interleaveAddresses([
+			{ address: "2001:db8::1", family: 6 },
+			{ address: "2001:db8::2", family: 6 },
+			{ address: "2001:db8::3", family: 6 },
+			{ address: "192.0.2.1", family: 4 },
+			{ address: "192.0.2.2", family: 4 },
+		]);
+		expect(ordered.map((a) => a.address)).toEqual([
+			"2001:db8::1",
+			"192.0.2.1",
+			"2001:db8::2",
+			"192.0.2.2",
+			"2001:db8::3",
+		]);
+	});
+});
+
+describe("connectHappyEyeballs", () => {
+	test("moves past a refused address to one that answers", async () => {
+		const spy = resolveProxyTo(["127.0.0.2", "127.0.0.1"]);
+		try {
+			const socket = await connectHappyEyeballs("proxy.test", socksPort, 1000);
+			expect(socket.remoteAddress).toBe("127.0.0.1");
+			socket.destroy();
+		} finally {
+			spy.mockRestore();
+		}
+	});
+
+	test("starts the next attempt after the delay and closes the loser", async () => {
+		// 127.0.0.3 stands in for a blackholed address: its attempt never
+		// connects or fails, so only the delay moves things along.
+		const stalled = new net.Socket();
+		const connect = net.connect;
+		const spy = spyOn(net, "connect").mockImplementation(((
+			options: net.TcpNetConnectOpts,
+		) =>
+			options.host === "127.0.0.3"
+				? stalled
+				: connect(options)) as unknown as typeof net.connect);
+		const lookup = resolveProxyTo(["127.0.0.3", "127.0.0.1"]);
+		try {
+			const started = Date.now();
+			const socket = await connectHappyEyeballs("proxy.test", socksPort, 100);
+			expect(Date.now() - started).toBeGreaterThanOrEqual(95);
+			expect(socket.remoteAddress).toBe("127.0.0.1");
+			expect(stalled.destroyed).toBe(true);
+			socket.destroy();
+		} finally {
+			spy.mockRestore();
+			lookup.mockRestore();
+		}
+	});
+
+	test("names every address tried when all of them fail", async () => {
+		const spy = resolveProxyTo(["::1", "127.0.0.1", "127.0.0.2"]);
+		try {
+			const err = await connectHappyEyeballs(
+				"proxy.test",
+				closedPort,
+				50,
+			).catch((e) => e);
+			expect(err).toBeInstanceOf(ProxyConnectError);
+			expect(err.attempts.map((a: { address: string }) => a.address)).toEqual([
+				"::1",
+				"127.0.0.1",
+				"127.0.0.2",
+			]);
+			expect(err.message).toStartWith(
+				`Could not connect to proxy.test:${closedPort}; tried ::1 (`,
+			);
+			expect(err.message).toContain("127.0.0.1 (ECONNREFUSED)");
+		} finally {
+			spy.mockRestore();
+		}
+	});
+
+	test("passes a single address's error through", async () => {
+		await expect(
+			connectHappyEyeballs("127.0.0.1", closedPort),
+		).rejects.toMatchObject({ code: "ECONNREFUSED" });
+	});
+});
+
+describe("fetch with a multi-address proxy host", () => {
+	test("reaches the proxy through whichever address answers", async () => {
+		const spy = resolveProxyTo(["127.0.0.2", "127.0.0.1"]);
+		try {
+			const res = await fetch(`http://127.0.0.1:${targetPort}/`, {
+				proxy: { url: `socks5://proxy.test:${socksPort}`, attemptDelay: 20 },
+			});
+			expect(await res.text()).toBe("ok");
+			expect(socks.requests).toHaveLength(1);
+		} finally {
+			spy.mockRestore();
+		}
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { lookupAddress, pickAddress } from "../src/lookup";
+
+const both = [
+	{ address: "2001:db8::1", family: 6 },
+	{ address: "192.0.2.1", family: 4 },
+];
+
+describe("pickAddress", () => {
+	test("ipv4first prefers A records and falls back to AAAA", () => {
+		expect(pickAddress(both, "ipv4first")).toBe("192.0.2.1");
+		expect(pickAddress([both[0]!], "ipv4first")).toBe("2001:db8::1");
+	});
+
+	test("ipv6first prefers AAAA records and falls back to A", () => {
+		expect(pickAddress(both, "ipv6first")).toBe("2001:db8::1");
+		expect(pickAddress([both[1]!], "ipv6first")).toBe("192.0.2.1");
+	});
+
+	test("*only preferences never cross families", () => {
+		expect(pickAddress([both[0]!], "ipv4only")).toBeNull();
+		expect(pickAddress([both[1]!], "ipv6only")).toBeNull();
+	});
+
+	test("defaults to ipv4first", () => {
+		expect(pickAddress(both)).toBe("192.0.2.1");
+	});
+});
+
+describe("lookupAddress", () => {
+	test("returns IP literals untouched", async () => {
+		expect(await lookupAddress("10.0.0.1")).toBe("10.0.0.1");
+		expect(await lookupAddress("::1", "ipv6first")).toBe("::1");
+	});
+
+	test("rejects literals that contradict an *only preference", async () => {
+		await expect(lookupAddress("::1", "ipv4only")).rejects.toThrow(/family/);
+		await expect(lookupAddress("10.0.0.1", "ipv6only")).rejects.toThrow(
+			/family/,
+		);
+	});
+
+	test("resolves hostnames through the OS resolver", async () => {
+		expect(await lookupAddress("localhost", "ipv4only")).toBe("127.0.0.1");
+	});
+});
@@ -0,0 +1,171 @@
+import { createHash } from "node:crypto";
+import * as net from "node:net";
+import * as tls from "node:tls";
+
+// In-process HTTP proxy for tests. It handles CONNECT (piping the client to
+// the requested authority) and absolute-form forwarding (rewriting the
+// request to origin-form for the target). Every request head is recorded, and
+// it can demand Basic or Digest proxy credentials. Given TLS options it is an
+// `https://` proxy.
+
+export type RecordedProxyRequest = {
+	method: string;
+	target: string;
+	headers: Record<string, string>;
+};
+
+export class MockHttpProxy {
+	private server: net.Server;
+	port = 0;
+	/** Credentials required via Proxy-Authorization; null = none. */
+	auth: { user: string; password: string } | null = null;
+	/** Challenge with Digest (qop=auth) instead of Basic. */
+	digest = false;
+	/** Close the connection after a 407 instead of keeping it open. */
+	closeOn407 = false;
+	/** Status sent in reply to every CONNECT; 200 tunnels. */
+	status = 200;
+	/** Host → address overrides used when dialing the target. */
+	hosts = new Map<string, string>();
+	requests: RecordedProxyRequest[] = [];
+
+	constructor(private tlsOptions?: tls.TlsOptions) {
+		this.server = tlsOptions
+			? tls.createServer(tlsOptions, (sock) => this.onConn(sock))
+			: net.createServer((sock) => this.onConn(sock));
+	}
+
+	async listen(): Promise<void> {
+		await new Promise<void>((r) =>
+			this.server.listen(0, "127.0.0.1", () => r()),
+		);
+		this.port = (this.server.address() as net.AddressInfo).port;
+	}
+
+	get url(): string {
+		const scheme = this.tlsOptions ? "https" : "http";
+		return this.auth
+			? `${scheme}://${this.auth.user}:${this.auth.password}@127.0.0.1:${this.port}`
+			: `${scheme}://127.0.0.1:${this.port}`;
+	}
+
+	close(): Promise<void> {
+		return new Promise((r) => this.server.close(() => r()));
+	}
+
+	reset(): void {
+		this.auth = null;
+		this.digest = false;
+		this.closeOn407 = false;
+		this.status = 200;
+		this.hosts.clear();
+		this.requests.length = 0;
+	}
+
+	private authorized(method: string, header: string | undefined): boolean {
+		if (!this.auth) return true;
+		if (!header) return false;
+		const { user, password } = this.auth;
+		if (!this.digest) {
+			return (
+				header ===
+				`Basic ${Buffer.from(`${user}:${password}`).toString("base64")}`
+			);
+		}
+		if (!header.startsWith("Digest ")) return false;
+		const params = new Map<string, string>();
+		for (const m of header.matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]+))/g)) {
+			params.set(m[1] as string, m[2] ?? (m[3] as string));
+		}
+		const md5 = (s: string) => createHash("md5").update(s).digest("hex");
+		const ha1 = md5(`${user}:mock:${password}`);
+		const ha2 = md5(`${method}:${params.get("uri")}`);
+		const expected = md5(
+			`${ha1}:n0nce:${params.get("nc")}:${params.get("cnonce")}:auth:${ha2}`,
+		);
+		return (
+			params.get("username") === user && params.get("response") === expected
+		);
+	}
+
+	private onConn(sock: net.Socket) {
+		let buf = Buffer.alloc(0);
+		sock.on("error", () => sock.destroy());
+		const onData = (chunk: Buffer) => {
+			buf = Buffer.concat([buf, chunk]);
+			const end = buf.indexOf("\r\n\r\n");
+			if (end === -1) return;
+			const [requestLine = "", ...lines] = buf
+				.subarray(0, end)
+				.toString("latin1")
+				.split("\r\n");
+			const rest = buf.subarray(end + 4);
+			buf = Buffer.alloc(0);
+			const headers: Record<string, string> = {};
+			for (const line of lines) {
+				const colon = line.indexOf(":");
+				headers[line.slice(0, colon).trim().toLowerCase()] = line
+					.slice(colon + 1)
+					.trim();
+			}
+			const [method = "", target = ""] = requestLine.split(" ");
+			this.requests.push({ method, target, headers });
+
+			if (!this.authorized(method, headers["proxy-authorization"])) {
+				const challenge = this.digest
+					? 'Digest realm="mock", nonce="n0nce", qop="auth", algorithm=MD5'
+					: 'Basic realm="mock"';
+				const body = "auth required";
+				const response = `HTTP/1.1 407 Proxy Authentication Required\r\nProxy-Authenticate: ${challenge}\r\nContent-Length: ${body.length}\r\n${this.closeOn407 ? "Connection: close\r\n" : ""}\r\n${body}`;
+				if (this.closeOn407) sock.end(response);
+				else sock.write(response);
+				return;
+			}
+
+			sock.removeListener("data", onData);
+			if (method === "CONNECT") {
+				if (this.status !== 200) {
+					sock.end(`HTTP/1.1 ${this.status} Refused\r\n\r\n`);
+					return;
+				}
+				const colon = target.lastIndexOf(":");
+				const host = target.slice(0, colon).replace(/^\[|\]$/g, "");
+				const port = Number(target.slice(colon + 1));
+				this.pipeTo(sock, host, port, rest, () => {
+					sock.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+				});
+				return;
+			}
+
+			// Absolute-form: rewrite to origin-form and forward the rest as-is.
+			const url = new URL(target);
+			const head = [
+				`${method} ${url.pathname}${url.search} HTTP/1.1`,
+				...lines.filter((l) => !/^proxy-/i.test(l)),
+			].join("\r\n");
+			const forwarded = Buffer.concat([Buffer.from(`${head}\r\n\r\n`), rest]);
+			this.pipeTo(sock, url.hostname, Number(url.port || 80), forwarded);
+		};
+		sock.on("data", onData);
+	}
+
+	private pipeTo(
+		sock: net.Socket,
+		host: string,
+		port: number,
+		initial: Buffer,
+		onConnect?: () => void,
+	): void {
+		const upstream = net.connect(port, this.hosts.get(host) ?? host);
+		upstream.once("connect", () => {
+			onConnect?.();
+			if (initial.length > 0) upstream.write(initial);
+			sock.pipe(upstream);
+			upstream.pipe(sock);
+		});
+		upstream.on("error", () => {
+			if (sock.writable) sock.end("HTTP/1.1 502 Bad Gateway\r\n\r\n");
+		});
+		sock.on("close", () => upstream.destroy());
+	}
+}
@@ -0,0 +1,202 @@
+import {
+	type CipherGCMTypes,
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	hkdfSync,
+	randomBytes,
+} from "node:crypto";
+import * as net from "node:net";
+
+// In-process Shadowsocks AEAD server (SIP004) for tests: it decrypts the
+// client's stream, reads the target address from the first chunk, dials it
+// and relays both ways. Like real servers it gives no reply on a bad
+// password, it just drops the connection. Written independently of
+// src/shadowsocks.ts so the two are checked against each other.
+
+const KEY_LENGTHS: Record<string, number> = {
+	"aes-128-gcm": 16,
+	"aes-256-gcm": 32,
+	"chacha20-ietf-poly1305": 32,
+};
+
+export class MockShadowsocksServer {
+	private server: net.Server;
+	private masterKey: Buffer;
+	private keyLength: number;
+	port = 0;
+	/** Hostname → address overrides used when dialing targets. */
+	hosts = new Map<string, string>();
+	/** Target of every tunnel, in order. */
+	requests: { host: string; port: number }[] = [];
+	/** Connections dropped because a chunk failed to authenticate. */
+	rejected = 0;
+
+	constructor(
+		readonly method: string,
+		readonly password: string,
+	) {
+		this.keyLength = KEY_LENGTHS[method] as number;
+		let key = Buffer.alloc(0);
+		let block = Buffer.alloc(0);
+		while (key.length < this.keyLength) {
+			block = createHash("md5")
+				.update(block)
+				.update(password)
+				.digest() as Buffer<ArrayBuffer>;
+			key = Buffer.concat([key, block]);
+		}
+		this.masterKey = key.subarray(0, this.keyLength);
+		this.server = net.createServer((sock) => this.onConn(sock));
+	}
+
+	async listen(): Promise<void> {
+		await new Promise<void>((r) =>
+			this.server.listen(0, "127.0.0.1", () => r()),
+		);
+		this.port = (this.server.address() as net.AddressInfo).port;
+	}
+
+	/** SIP002 URL with base64url userinfo, as Shadowsocks clients share them. */
+	get url(): string {
+		const userinfo = Buffer.from(`${this.method}:${this.password}`).toString(
+			"base64url",
+		);
+		return `ss://${userinfo}@127.0.0.1:${this.port}#mock`;
+	}
+
+	close(): Promise<void> {
+		return new Promise((r) => this.server.close(() => r()));
+	}
+
+	reset(): void {
+		this.hosts.clear();
+		this.requests.length = 0;
+		this.rejected = 0;
+	}
+
+	private aead(salt: Buffer) {
+		const algorithm = (
+			this.method === "chacha20-ietf-poly1305"
+				? "chacha20-poly1305"
+				: this.method
+		) as CipherGCMTypes;
+		const key = Buffer.from(
+			hkdfSync("sha1", this.masterKey, salt, "ss-subkey", this.keyLength),
+		);
+		let counter = 0n;
+		const nextNonce = () => {
+			const nonce = Buffer.alloc(12);
+			nonce.writeBigUInt64LE(counter++);
+			return nonce;
+		};
+		return {
+			seal(data: Buffer): Buffer {
+				const c = createCipheriv(algorithm, key, nextNonce(), {
+					authTagLength: 16,
+				});
+				return Buffer.concat([c.update(data), c.final(), c.getAuthTag()]);
+			},
+			open(data: Buffer): Buffer | null {
+				const d = createDecipheriv(algorithm, key, nextNonce(), {
+					authTagLength: 16,
+				});
+				d.setAuthTag(data.subarray(data.length - 16));
+				try {
+					return Buffer.concat([
+						d.update(data.subarray(0, data.length - 16)),
+						d.final(),
+					]);
+				} catch {
+					return null;
+				}
+			},
+		};
+	}
+
+	private onConn(sock: net.Socket) {
+		sock.on("error", () => sock.destroy());
+		let buf = Buffer.alloc(0);
+		let decrypt: ReturnType<MockShadowsocksServer["aead"]> | null = null;
+		let payloadLength = -1;
+		let upstream: net.Socket | null = null;
+		const queued: Buffer[] = [];
+
+		const serverSalt = randomBytes(this.keyLength);
+		const encrypt = this.aead(serverSalt);
+		let saltSent = false;
+		const sendToClient = (data: Buffer) => {
+			const parts = saltSent ? [] : [serverSalt];
+			saltSent = true;
+			for (let i = 0; i < data.length; i += 0x3fff) {
+				const payload = data.subarray(i, i + 0x3fff);
+				const length = Buffer.from([
+					payload.length >> 8,
+					payload.length & 0xff,
+				]);
+				parts.push(encrypt.seal(length), encrypt.seal(payload));
+			}
+			sock.write(Buffer.concat(parts));
+		};
+
+		const onPlaintext = (data: Buffer) => {
+			if (upstream) {
+				if (upstream.connecting) queued.push(data);
+				else upstream.write(data);
+				return;
+			}
+			// First chunk starts with ATYP | ADDR | PORT.
+			let host: string;
+			let offset: number;
+			if (data[0] === 0x01) {
+				host = [...data.subarray(1, 5)].join(".");
+				offset = 5;
+			} else if (data[0] === 0x03) {
+				const len = data[1] as number;
+				host = data.subarray(2, 2 + len).toString();
+				offset = 2 + len;
+			} else {
+				sock.destroy();
+				return;
+			}
+			const port = data.readUInt16BE(offset);
+			this.requests.push({ host, port });
+			const rest = data.subarray(offset + 2);
+			if (rest.length > 0) queued.push(rest);
+			upstream = net.connect(port, this.hosts.get(host) ?? host);
+			upstream.once("connect", () => {
+				for (const chunk of queued.splice(0)) upstream?.write(chunk);
+			});
+			upstream.on("data", sendToClient);
+			upstream.on("end", () => sock.end());
+			upstream.on("error", () => sock.destroy());
+			sock.on("close", () => upstream?.destroy());
+		};
+
+		sock.on("data", (chunk: Buffer) => {
+			buf = Buffer.concat([buf, chunk]);
+			if (!decrypt) {
+				if (buf.length < this.keyLength) return;
+				decrypt = this.aead(buf.subarray(0, this.keyLength));
+				buf = buf.subarray(this.keyLength);
+			}
+			while (true) {
+				const need = payloadLength < 0 ? 18 : payloadLength + 16;
+				if (buf.length < need) return;
+				const plain = decrypt.open(buf.subarray(0, need));
+				buf = buf.subarray(need);
+				if (!plain) {
+					this.rejected++;
+					sock.destroy();
+					return;
+				}
+				if (payloadLength < 0) {
+					payloadLength = plain.readUInt16BE(0) & 0x3fff;
+				} else {
+					payloadLength = -1;
+					onPlaintext(plain);
+				}
+			}
+		});
+	}
+}
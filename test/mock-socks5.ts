@@ -0,0 +1,313 @@
+import * as dgram from "node:dgram";
+import * as net from "node:net";
+import * as tls from "node:tls";
+
+// In-process SOCKS5 proxy for tests. It implements just enough of RFC 1928 /
+// RFC 1929 to exercise the client: method negotiation, username/password
+// auth, CONNECT (forwarded to a real local socket), BIND (a real listener),
+// UDP ASSOCIATE (a real UDP relay) and, optionally, Tor's RESOLVE commands.
+// Every request is recorded so tests can assert on the bytes the client put
+// on the wire. Given TLS options it listens behind TLS, like a SOCKS5 proxy
+// wrapped in stunnel.
+
+export type RecordedRequest = {
+	cmd: number;
+	atyp: number;
+	host: string;
+	port: number;
+};
+
+export class MockSocks5Server {
+	private server: net.Server;
+	private relays = new Set<dgram.Socket>();
+	port = 0;
+	/** Credentials required from clients; null means "no auth". */
+	auth: { user: string; password: string } | null = null;
+	/** Require username/password auth but accept any pair (like Tor). */
+	anyCredentials = false;
+	/** REP code sent in reply to every request. */
+	replyCode = 0x00;
+	/** Answer Tor's RESOLVE (0xF0) / RESOLVE_PTR (0xF1) from `hosts`. */
+	tor = false;
+	/**
+	 * How UDP ASSOCIATE replies give the relay's address: as is, as the name
+	 * `localhost` (ATYP 0x03) or IPv4-mapped in IPv6 (ATYP 0x04).
+	 */
+	relayAddress: "ipv4" | "name" | "mapped" = "ipv4";
+	/** Hostname → address overrides used when forwarding CONNECTs. */
+	hosts = new Map<string, string>();
+	requests: RecordedRequest[] = [];
+	credentials: { user: string; password: string }[] = [];
+
+	constructor(private tlsOptions?: tls.TlsOptions) {
+		this.server = tlsOptions
+			? tls.createServer(tlsOptions, (sock) => this.onConn(sock))
+			: net.createServer((sock) => this.onConn(sock));
+	}
+
+	async listen(): Promise<void> {
+		await new Promise<void>((r) =>
+			this.server.listen(0, "127.0.0.1", () => r()),
+		);
+		const addr = this.server.address();
+		if (typeof addr === "string" || addr === null) throw new Error("bad addr");
+		this.port = addr.port;
+	}
+
+	get url(): string {
+		const scheme = this.tlsOptions ? "socks5+tls" : "socks5";
+		return this.auth
+			? `${scheme}://${this.auth.user}:${this.auth.password}@127.0.0.1:${this.port}`
+			: `${scheme}://127.0.0.1:${this.port}`;
+	}
+
+	close(): Promise<void> {
+		for (const relay of this.relays) relay.close();
+		this.relays.clear();
+		return new Promise((r) => this.server.close(() => r()));
+	}
+
+	reset(): void {
+		this.auth = null;
+		this.anyCredentials = false;
+		this.tor = false;
+		this.replyCode = 0x00;
+		this.relayAddress = "ipv4";
+		this.hosts.clear();
+		this.requests.length = 0;
+		this.credentials.length = 0;
+	}
+
+	private onConn(sock: net.Socket) {
+		let buf = Buffer.alloc(0);
+		let state: "greeting" | "auth" | "request" | "done" = "greeting";
+		sock.on("error", () => sock.destroy());
+		const onData = (chunk: Buffer) => {
+			buf = Buffer.concat([buf, chunk]);
+			while (true) {
+				if (state === "greeting") {
+					if (buf.length < 2 || buf.length < 2 + (buf[1] as number)) return;
+					const methods = [...buf.subarray(2, 2 + (buf[1] as number))];
+					buf = buf.subarray(2 + (buf[1] as number));
+					const want = this.auth || this.anyCredentials ? 0x02 : 0x00;
+					if (!methods.includes(want)) {
+						sock.end(Buffer.from([0x05, 0xff]));
+						return;
+					}
+					sock.write(Buffer.from([0x05, want]));
+					state = want === 0x02 ? "auth" : "request";
+				} else if (state === "auth") {
+					if (buf.length < 2) return;
+					const uLen = buf[1] as number;
+					if (buf.length < 3 + uLen) return;
+					const pLen = buf[2 + uLen] as number;
+					if (buf.length < 3 + uLen + pLen) return;
+					const user = buf.subarray(2, 2 + uLen).toString();
+					const password = buf.subarray(3 + uLen, 3 + uLen + pLen).toString();
+					buf = buf.subarray(3 + uLen + pLen);
+					this.credentials.push({ user, password });
+					const ok =
+						this.anyCredentials ||
+						(this.auth?.user === user && this.auth?.password === password);
+					sock.write(Buffer.from([0x01, ok ? 0x00 : 0x01]));
+					if (!ok) {
+						sock.end();
+						return;
+					}
+					state = "request";
+				} else if (state === "request") {
+					const req = parseRequest(buf);
+					if (!req) return;
+					buf = buf.subarray(req.length);
+					this.requests.push(req.request);
+					state = "done";
+					sock.removeListener("data", onData);
+					this.handleRequest(sock, req.request, buf);
+					return;
+				} else {
+					return;
+				}
+			}
+		};
+		sock.on("data", onData);
+	}
+
+	private handleRequest(
+		sock: net.Socket,
+		req: RecordedRequest,
+		rest: Buffer,
+	): void {
+		if (this.replyCode !== 0x00) {
+			sock.end(reply(this.replyCode, "0.0.0.0", 0));
+			return;
+		}
+		if (req.cmd === 0x01) {
+			const host = this.hosts.get(req.host) ?? req.host;
+			const upstream = net.connect(req.port, host);
+			upstream.once("connect", () => {
+				sock.write(reply(0x00, "127.0.0.1", upstream.localPort ?? 0));
+				if (rest.length > 0) upstream.write(rest);
+				sock.pipe(upstream);
+				upstream.pipe(sock);
+			});
+			upstream.on("error", () => {
+				if (sock.writable) sock.end(reply(0x05, "0.0.0.0", 0));
+			});
+			sock.on("close", () => upstream.destroy());
+			// The pipe stops reading once upstream closes; keep draining so the
+			// client's last bytes and FIN still arrive.
+			upstream.on("close", () => sock.resume());
+			return;
+		}
+		if (req.cmd === 0x02) {
+			const listener = net.createServer((peer) => {
+				listener.close();
+				sock.write(reply(0x00, "127.0.0.1", peer.remotePort ?? 0));
+				sock.pipe(peer);
+				peer.pipe(sock);
+				peer.on("error", () => sock.destroy());
+				sock.on("close", () => peer.destroy());
+			});
+			listener.listen(0, "127.0.0.1", () => {
+				const addr = listener.address() as net.AddressInfo;
+				sock.write(reply(0x00, "0.0.0.0", addr.port));
+			});
+			sock.on("close", () => listener.close());
+			return;
+		}
+		if (req.cmd === 0x03) {
+			const relay = dgram.createSocket("udp4");
+			this.relays.add(relay);
+			let client: { address: string; port: number } | null = null;
+			relay.on("message", (msg, rinfo) => {
+				if (
+					rinfo.address === "127.0.0.1" &&
+					(!client || rinfo.port === client.port)
+				) {
+					// From the client: unwrap header and forward the payload.
+					const parsed = parseAddress(msg, 3);
+					if (!parsed || msg[2] !== 0x00) return;
+					if (!client) client = { address: rinfo.address, port: rinfo.port };
+					const host = this.hosts.get(parsed.host) ?? parsed.host;
+					relay.send(msg.subarray(3 + parsed.length), parsed.port, host);
+					return;
+				}
+				if (!client) return;
+				// From a remote peer: wrap and hand back to the client.
+				const header = Buffer.concat([
+					Buffer.from([0x00, 0x00, 0x00, 0x01]),
+					Buffer.from(rinfo.address.split(".").map(Number)),
+					Buffer.from([(rinfo.port >> 8) & 0xff, rinfo.port & 0xff]),
+				]);
+				relay.send(Buffer.concat([header, msg]), client.port, client.address);
+			});
+			relay.bind(0, "127.0.0.1", () => {
+				const port = relay.address().port;
+				sock.write(relayReply(this.relayAddress, port));
+			});
+			sock.on("close", () => {
+				this.relays.delete(relay);
+				relay.close();
+			});
+			return;
+		}
+		if (this.tor && req.cmd === 0xf0) {
+			const address = this.hosts.get(req.host);
+			sock.end(reply(address ? 0x00 : 0x04, address ?? "0.0.0.0", 0));
+			return;
+		}
+		if (this.tor && req.cmd === 0xf1) {
+			const name = [...this.hosts].find(([, ip]) => ip === req.host)?.[0];
+			if (!name) {
+				sock.end(reply(0x04, "0.0.0.0", 0));
+				return;
+			}
+			sock.end(
+				Buffer.concat([
+					Buffer.from([0x05, 0x00, 0x00, 0x03, name.length]),
+					Buffer.from(name),
+					Buffer.from([0x00, 0x00]),
+				]),
+			);
+			return;
+		}
+		sock.end(reply(0x07, "0.0.0.0", 0));
+	}
+}
+
+function reply(code: number, ipv4: string, port: number): Buffer {
+	return Buffer.from([
+		0x05,
+		code,
+		0x00,
+		0x01,
+		...ipv4.split(".").map(Number),
+		(port >> 8) & 0xff,
+		port & 0xff,
+	]);
+}
+
+function relayReply(form: "ipv4" | "name" | "mapped", port: number): Buffer {
+	if (form === "ipv4") return reply(0x00, "127.0.0.1", port);
+	const address =
+		form === "name"
+			? Buffer.concat([Buffer.from([0x03, 9]), Buffer.from("localhost")])
+			: Buffer.from([0x04, ...Array(10).fill(0), 0xff, 0xff, 127, 0, 0, 1]);
+	return Buffer.concat([
+		Buffer.from([0x05, 0x00, 0x00]),
+		address,
+		Buffer.from([(port >> 8) & 0xff, port & 0xff]),
+	]);
+}
+
+function parseAddress(
+	buf: Buffer,
+	offset: number,
+): { atyp: number; host: string; port: number; length: number } | null {
+	const atyp = buf[offset];
+	let host: string;
+	let addrEnd: number;
+	if (atyp === 0x01) {
+		addrEnd = offset + 5;
+		if (buf.length < addrEnd + 2) return null;
+		host = [...buf.subarray(offset + 1, addrEnd)].join(".");
+	} else if (atyp === 0x03) {
+		if (buf.length < offset + 2) return null;
+		addrEnd = offset + 2 + (buf[offset + 1] as number);
+		if (buf.length < addrEnd + 2) return null;
+		host = buf.subarray(offset + 2, addrEnd).toString();
+	} else if (atyp === 0x04) {
+		addrEnd = offset + 17;
+		if (buf.length < addrEnd + 2) return null;
+		const groups: string[] = [];
+		for (let i = offset + 1; i < addrEnd; i += 2) {
+			groups.push(buf.readUInt16BE(i).toString(16));
+		}
+		host = groups.join(":");
+	} else {
+		return null;
+	}
+	return {
+		atyp,
+		host,
+		port: buf.readUInt16BE(addrEnd),
+		length: addrEnd + 2 - offset,
+	};
+}
+
+function parseRequest(
+	buf: Buffer,
+): { request: RecordedRequest; length: number } | null {
+	if (buf.length < 4) return null;
+	const addr = parseAddress(buf, 3);
+	if (!addr) return null;
+	return {
+		request: {
+			cmd: buf[1] as number,
+			atyp: addr.atyp,
+			host: addr.host,
+			port: addr.port,
+		},
+		length: 3 + addr.length,
+	};
+}
@@ -0,0 +1,129 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import type { Server } from "bun";
+import { globalConnectionPool } from "../src/connection-pool";
+import { StrictModeError } from "../src/errors";
+import { fetch } from "../src/fetch";
+import { bypassesProxy } from "../src/no-proxy";
+import { MockSocks5Server } from "./mock-socks5";
+
+let socks: MockSocks5Server;
+let target: Server<undefined>;
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	await socks.listen();
+	target = Bun.serve({
+		hostname: "127.0.0.1",
+		port: 0,
+		fetch: () => new Response("ok"),
+	});
+});
+
+afterAll(async () => {
+	globalConnectionPool.clear();
+	await socks.close();
+	target.stop(true);
+});
+
+beforeEach(() => {
+	socks.reset();
+	socks.hosts.set("target.test", "127.0.0.1");
+	socks.hosts.set("other.test", "127.0.0.1");
+});
+
+describe("bypassesProxy", () => {
+	test("matches domains and their subdomains", () => {
+		for (const list of ["example.com", ".example.com", "*.example.com"]) {
+			expect(bypassesProxy("example.com", 443, list)).toBe(true);
+			expect(bypassesProxy("api.EXAMPLE.com.", 443, list)).toBe(true);
+			expect(bypassesProxy("badexample.com", 443, list)).toBe(false);
+		}
+		expect(bypassesProxy("anything", 80, "*")).toBe(true);
+		expect(bypassesProxy("anything", 80, "")).toBe(false);
+	});
+
+	test("splits lists on commas and whitespace", () => {
+		const list = "localhost, internal.corp  10.0.0.0/8";
+		expect(bypassesProxy("localhost", 80, list)).toBe(true);
+		expect(bypassesProxy("svc.internal.corp", 80, list)).toBe(true);
+		expect(bypassesProxy("10.1.2.3", 80, list)).toBe(true);
+		expect(bypassesProxy("example.com", 80, list)).toBe(false);
+	});
+
+	test("limits host:port entries to that port", () => {
+		const list = ["example.com:8080", "[::1]:9000", "127.0.0.1:3000"];
+		expect(bypassesProxy("api.example.com", 8080, list)).toBe(true);
+		expect(bypassesProxy("api.example.com", 443, list)).toBe(false);
+		expect(bypassesProxy("[0:0::1]", 9000, list)).toBe(true);
+		expect(bypassesProxy("::1", 9001, list)).toBe(false);
+		expect(bypassesProxy("127.0.0.1", 3000, list)).toBe(true);
+		expect(bypassesProxy("127.0.0.1", 80, list)).toBe(false);
+	});
+
+	test("matches addresses against IPv4 and IPv6 blocks", () => {
+		const list = "192.168.0.0/16,fd00::/8,2001:db8::1";
+		expect(bypassesProxy("192.168.44.1", 80, list)).toBe(true);
+		expect(bypassesProxy("192.169.0.1", 80, list)).toBe(false);
+		expect(bypassesProxy("[fd12:3456::1]", 80, list)).toBe(true);
+		expect(bypassesProxy("fe80::1", 80, list)).toBe(false);
+		expect(bypassesProxy("2001:db8:0::1", 80, list)).toBe(true);
+		// Names are not resolved, and addresses are not suffix-matched.
+		expect(bypassesProxy("router.lan", 80, list)).toBe(false);
+		expect(bypassesProxy("10.0.0.1", 80, "0.1")).toBe(false);
+	});
+
+	test("ignores malformed entries", () => {
+		expect(bypassesProxy("10.0.0.1", 80, "10.0.0.0/33, ., /8")).toBe(false);
+	});
+});
+
+describe("fetch with a bypass list", () => {
+	test("fetches bypassed targets directly", async () => {
+		const proxy = { url: socks.url, bypass: ["127.0.0.0/8"] };
+		const res = await fetch(`http://127.0.0.1:${target.port}/`, { proxy });
+		expect(await res.text()).toBe("ok");
+		expect(socks.requests).toHaveLength(0);
+
+		await fetch(`http://target.test:${target.port}/`, { proxy });
+		expect(socks.requests).toHaveLength(1);
+	});
+
+	test("applies NO_PROXY to the proxy environment variables", async () => {
+		const saved = { proxy: process.env.SOCKS5_PROXY, no: process.env.NO_PROXY };
+		process.env.SOCKS5_PROXY = socks.url;
+		process.env.NO_PROXY = `.test, 127.0.0.1:${target.port}`;
+		try {
+			const res = await fetch(`http://127.0.0.1:${target.port}/`);
+			expect(await res.text()).toBe("ok");
+			expect(socks.requests).toHaveLength(0);
+
+			// An explicit proxy is not affected.
+			await fetch(`http://other.test:${target.port}/`, { proxy: socks.url });
+			expect(socks.requests).toHaveLength(1);
+		} finally {
+			for (const [name, value] of [
+				["SOCKS5_PROXY", saved.proxy],
+				["NO_PROXY", saved.no],
+			] as const) {
+				if (value === undefined) delete process.env[name];
+				else process.env[name] = value;
+			}
+		}
+	});
+
+	test("refuses bypassed targets in strict mode", async () => {
+		await expect(
+			fetch(`http://127.0.0.1:${target.port}/`, {
+				proxy: { url: socks.url, bypass: "*", strict: true },
+			}),
+		).rejects.toBeInstanceOf(StrictModeError);
+		expect(socks.requests).toHaveLength(0);
+	});
+});
@@ -0,0 +1,182 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import * as net from "node:net";
+import * as tls from "node:tls";
+import { globalConnectionPool } from "../src/connection-pool";
+import { convert } from "../src/convert";
+import { fetch, parseProxyUrl } from "../src/fetch";
+import { MockHttpProxy } from "./mock-http-proxy";
+import { MockSocks5Server } from "./mock-socks5";
+import { cert, key } from "./tls-cert";
+
+let socksTls: MockSocks5Server;
+let socksMutual: MockSocks5Server;
+let socksPlain: MockSocks5Server;
+let httpsProxy: MockHttpProxy;
+let plainTarget: net.Server;
+let tlsTarget: tls.Server;
+let plainPort = 0;
+let tlsPort = 0;
+
+/** Answer every request with its request line, keeping the connection open. */
+function respond(sock: net.Socket) {
+	let buf = "";
+	sock.on("data", (chunk) => {
+		buf += chunk.toString("latin1");
+		let end = buf.indexOf("\r\n\r\n");
+		while (end !== -1) {
+			const requestLine = buf.slice(0, buf.indexOf("\r\n"));
+			buf = buf.slice(end + 4);
+			sock.write(
+				`HTTP/1.1 200 OK\r\nContent-Length: ${requestLine.length}\r\n\r\n${requestLine}`,
+			);
+			end = buf.indexOf("\r\n\r\n");
+		}
+	});
+	sock.on("error", () => sock.destroy());
+}
+
+beforeAll(async () => {
+	socksTls = new MockSocks5Server({ key, cert });
+	socksMutual = new MockSocks5Server({
+		key,
+		cert,
+		ca: cert,
+		requestCert: true,
+		rejectUnauthorized: true,
+	});
+	socksPlain = new MockSocks5Server();
+	httpsProxy = new MockHttpProxy({ key, cert });
+	await Promise.all([
+		socksTls.listen(),
+		socksMutual.listen(),
+		socksPlain.listen(),
+		httpsProxy.listen(),
+	]);
+
+	plainTarget = net.createServer(respond);
+	tlsTarget = tls.createServer({ key, cert }, respond);
+	await new Promise<void>((r) => plainTarget.listen(0, "127.0.0.1", () => r()));
+	await new Promise<void>((r) => tlsTarget.listen(0, "127.0.0.1", () => r()));
+	plainPort = (plainTarget.address() as net.AddressInfo).port;
+	tlsPort = (tlsTarget.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	globalConnectionPool.clear();
+	await Promise.all([
+		socksTls.close(),
+		socksMutual.close(),
+		socksPlain.close(),
+		httpsProxy.close(),
+	]);
+	await new Promise<void>((r) => plainTarget.close(() => r()));
+	await new Promise<void>((r) => tlsTarget.close(() => r()));
+});
+
+beforeEach(() => {
+	globalConnectionPool.clear();
+	for (const proxy of [socksTls, socksMutual, socksPlain]) {
+		proxy.reset();
+		proxy.hosts.set("target.test", "127.0.0.1");
+	}
+	httpsProxy.reset();
+	httpsProxy.hosts.set("target.test", "127.0.0.1");
+});
+
+describe("socks5+tls://", () => {
+	test("is accepted by convert and parseProxyUrl", () => {
+		expect(convert("socks5+tls://u:p@proxy.test:1443")).toBe(
+			"socks5+tls://u:p@proxy.test:1443",
+		);
+		expect(parseProxyUrl("socks5+tls://proxy.test:1443").protocol).toBe(
+			"socks5+tls",
+		);
+	});
+
+	test("runs the SOCKS5 handshake inside TLS to the proxy", async () => {
+		const res = await fetch(`http://target.test:${plainPort}/plain`, {
+			proxy: { url: socksTls.url, tls: { ca: cert } },
+		});
+		expect(await res.text()).toBe("GET /plain HTTP/1.1");
+		expect(socksTls.requests[0]?.host).toBe("target.test");
+	});
+
+	test("nests the target's TLS session inside the proxy's", async () => {
+		const res = await fetch(`https://target.test:${tlsPort}/nested`, {
+			proxy: { url: socksTls.url, tls: { ca: cert } },
+			tls: { ca: cert },
+		});
+		expect(await res.text()).toBe("GET /nested HTTP/1.1");
+	});
+
+	test("rejects an untrusted proxy certificate by default", async () => {
+		await expect(
+			fetch(`http://target.test:${plainPort}/`, { proxy: socksTls.url }),
+		).rejects.toThrow();
+		expect(socksTls.requests).toHaveLength(0);
+	});
+
+	test("target TLS options are not used for the proxy", async () => {
+		await expect(
+			fetch(`https://target.test:${tlsPort}/`, {
+				proxy: socksTls.url,
+				tls: { ca: cert },
+			}),
+		).rejects.toThrow();
+		expect(socksTls.requests).toHaveLength(0);
+	});
+
+	test("presents a client certificate from proxy.tls", async () => {
+		await expect(
+			fetch(`http://target.test:${plainPort}/`, {
+				proxy: { url: socksMutual.url, tls: { ca: cert } },
+			}),
+		).rejects.toThrow();
+
+		const res = await fetch(`http://target.test:${plainPort}/mutual`, {
+			proxy: { url: socksMutual.url, tls: { ca: cert, cert, key } },
+		});
+		expect(await res.text()).toBe("GET /mutual HTTP/1.1");
+	});
+});
+
+describe("https:// proxies", () => {
+	test("tunnels an https target with TLS in TLS", async () => {
+		const res = await fetch(`https://target.test:${tlsPort}/connect`, {
+			proxy: { url: httpsProxy.url, tls: { ca: cert } },
+			tls: { ca: cert },
+		});
+		expect(await res.text()).toBe("GET /connect HTTP/1.1");
+		expect(httpsProxy.requests[0]?.method).toBe("CONNECT");
+	});
+
+	test("forwards an http target over TLS to the proxy", async () => {
+		const res = await fetch(`http://target.test:${plainPort}/forward`, {
+			proxy: {
+				url: httpsProxy.url,
+				tls: { ca: cert, servername: "proxy.test" },
+			},
+		});
+		expect(await res.text()).toBe("GET /forward HTTP/1.1");
+		expect(httpsProxy.requests[0]?.target).toBe(
+			`http://target.test:${plainPort}/forward`,
+		);
+	});
+
+	test("is reached over TLS through an earlier chain hop", async () => {
+		const res = await fetch(`https://target.test:${tlsPort}/chain`, {
+			proxy: { url: [socksPlain.url, httpsProxy.url], tls: { ca: cert } },
+			tls: { ca: cert },
+		});
+		expect(await res.text()).toBe("GET /chain HTTP/1.1");
+		expect(socksPlain.requests[0]?.port).toBe(httpsProxy.port);
+		expect(httpsProxy.requests[0]?.target).toBe(`target.test:${tlsPort}`);
+	});
+});
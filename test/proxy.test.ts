@@ -135,11 +135,11 @@ describe('Proxy', () => {
 		).rejects.toThrow();
 	}, 15000);
 
-	test('Configuration: Should pass non-SOCKS proxy to native fetch', async () => {
+	test('Configuration: Should handle non-SOCKS proxy without SOCKS errors', async () => {
 		const httpProxy = 'http://proxy.example.com:8080';
 
-		// Will pass to globalThis.fetch - may fail if proxy doesn't exist
-		// This just tests that we don't throw and delegate properly
+		// Goes through the HTTP proxy path - fails since the proxy doesn't exist
+		// This just tests that it isn't mistaken for a SOCKS proxy
 		try {
 			await socksFetch('http://detectportal.firefox.com/success.txt', {
 				proxy: httpProxy,
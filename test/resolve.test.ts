@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Socks5ReplyError } from "../src/errors";
+import { resolve, reverse } from "../src/resolve";
+import { MockSocks5Server } from "./mock-socks5";
+
+let proxy: MockSocks5Server;
+
+beforeAll(async () => {
+	proxy = new MockSocks5Server();
+	await proxy.listen();
+});
+
+afterAll(async () => {
+	await proxy.close();
+});
+
+describe("resolve", () => {
+	test("sends RESOLVE with the hostname and returns the address", async () => {
+		proxy.reset();
+		proxy.tor = true;
+		proxy.hosts.set("example.onion.test", "10.1.2.3");
+		expect(await resolve("example.onion.test", { proxy: proxy.url })).toEqual([
+			"10.1.2.3",
+		]);
+		expect(proxy.requests).toEqual([
+			{ cmd: 0xf0, atyp: 0x03, host: "example.onion.test", port: 0 },
+		]);
+	});
+
+	test("IP literals are returned without asking the proxy", async () => {
+		proxy.reset();
+		expect(await resolve("192.0.2.1", { proxy: proxy.url })).toEqual([
+			"192.0.2.1",
+		]);
+		expect(proxy.requests).toEqual([]);
+	});
+
+	test("unknown names reject with the proxy's reply", async () => {
+		proxy.reset();
+		proxy.tor = true;
+		const err = await resolve("nowhere.test", { proxy: proxy.url }).catch(
+			(e) => e,
+		);
+		expect(err).toBeInstanceOf(Socks5ReplyError);
+		expect(err.message).toMatch(/SOCKS5 Resolve failed: Host unreachable/);
+	});
+
+	test("proxies without the extension get a clear error", async () => {
+		proxy.reset();
+		await expect(resolve("example.com", { proxy: proxy.url })).rejects.toThrow(
+			/does not support RESOLVE \(Tor SOCKS extension 0xf0\)/,
+		);
+	});
+
+	test("non-SOCKS5 proxies are rejected", async () => {
+		await expect(
+			resolve("example.com", { proxy: "socks4a://127.0.0.1:9050" }),
+		).rejects.toThrow(/RESOLVE requires a SOCKS5 proxy/);
+	});
+});
+
+describe("reverse", () => {
+	test("sends RESOLVE_PTR with the address and returns the name", async () => {
+		proxy.reset();
+		proxy.tor = true;
+		proxy.hosts.set("host.example", "10.9.8.7");
+		expect(await reverse("10.9.8.7", { proxy: proxy.url })).toEqual([
+			"host.example",
+		]);
+		expect(proxy.requests).toEqual([
+			{ cmd: 0xf1, atyp: 0x01, host: "10.9.8.7", port: 0 },
+		]);
+	});
+
+	test("proxies without the extension get a clear error", async () => {
+		proxy.reset();
+		await expect(reverse("10.9.8.7", { proxy: proxy.url })).rejects.toThrow(
+			/does not support RESOLVE_PTR/,
+		);
+	});
+
+	test("hostnames are rejected before connecting", async () => {
+		proxy.reset();
+		await expect(reverse("example.com", { proxy: proxy.url })).rejects.toThrow(
+			/expects an IP address/,
+		);
+		expect(proxy.requests).toEqual([]);
+	});
+});
@@ -0,0 +1,262 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import { getCiphers } from "node:crypto";
+import * as net from "node:net";
+import * as tls from "node:tls";
+import { connect } from "../src/connect";
+import { globalConnectionPool } from "../src/connection-pool";
+import { convert } from "../src/convert";
+import { fetch, parseProxyUrl } from "../src/fetch";
+import { MockShadowsocksServer } from "./mock-shadowsocks";
+import { MockSocks5Server } from "./mock-socks5";
+import { cert, key } from "./tls-cert";
+
+let aes256: MockShadowsocksServer;
+let aes128: MockShadowsocksServer;
+let socks: MockSocks5Server;
+let target: net.Server;
+let tlsTarget: tls.Server;
+let targetPort = 0;
+let tlsPort = 0;
+let connections = 0;
+
+const BIG = 50_000;
+
+/**
+ * HTTP/1.1 keep-alive responder: `GET /big` returns BIG bytes, anything else
+ * echoes the request line and the size of the request body.
+ */
+function respond(sock: net.Socket) {
+	connections++;
+	let buf = Buffer.alloc(0);
+	sock.on("data", (chunk) => {
+		buf = Buffer.concat([buf, chunk]);
+		while (true) {
+			const end = buf.indexOf("\r\n\r\n");
+			if (end === -1) return;
+			const head = buf.subarray(0, end).toString("latin1");
+			const length = Number(/content-length: (\d+)/i.exec(head)?.[1] ?? 0);
+			if (buf.length < end + 4 + length) return;
+			buf = buf.subarray(end + 4 + length);
+			const requestLine = head.slice(0, head.indexOf("\r\n"));
+			const body = requestLine.startsWith("GET /big ")
+				? "x".repeat(BIG)
+				: `${requestLine} ${length}`;
+			sock.write(
+				`HTTP/1.1 200 OK\r\nContent-Length: ${body.length}\r\n\r\n${body}`,
+			);
+		}
+	});
+	sock.on("error", () => sock.destroy());
+}
+
+beforeAll(async () => {
+	aes256 = new MockShadowsocksServer("aes-256-gcm", "s3cret");
+	aes128 = new MockShadowsocksServer("aes-128-gcm", "pa:ss word");
+	socks = new MockSocks5Server();
+	await Promise.all([aes256.listen(), aes128.listen(), socks.listen()]);
+
+	target = net.createServer(respond);
+	tlsTarget = tls.createServer({ key, cert }, respond);
+	await new Promise<void>((r) => target.listen(0, "127.0.0.1", () => r()));
+	await new Promise<void>((r) => tlsTarget.listen(0, "127.0.0.1", () => r()));
+	targetPort = (target.address() as net.AddressInfo).port;
+	tlsPort = (tlsTarget.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	globalConnectionPool.clear();
+	await Promise.all([aes256.close(), aes128.close(), socks.close()]);
+	await new Promise<void>((r) => target.close(() => r()));
+	await new Promise<void>((r) => tlsTarget.close(() => r()));
+});
+
+beforeEach(() => {
+	globalConnectionPool.clear();
+	connections = 0;
+	for (const server of [aes256, aes128]) {
+		server.reset();
+		server.hosts.set("target.test", "127.0.0.1");
+	}
+	socks.reset();
+});
+
+describe("ss:// URLs", () => {
+	test("convert decodes SIP002 base64url userinfo and drops the tag", () => {
+		expect(
+			convert("ss://YWVzLTI1Ni1nY206czNjcmV0@ss.example.com:8388/#Node%201"),
+		).toBe("ss://aes-256-gcm:s3cret@ss.example.com:8388");
+	});
+
+	test("convert accepts padded base64, plain userinfo and the legacy form", () => {
+		// base64("aes-128-gcm:pa:ss word") uses '+' and '=' padding.
+		const userinfo = Buffer.from("aes-128-gcm:pa:ss word").toString("base64");
+		expect(convert(`ss://${userinfo}@[::1]:8388`)).toBe(
+			"ss://aes-128-gcm:pa%3Ass%20word@[::1]:8388",
+		);
+		expect(convert("ss://aes-256-gcm:s3cret@10.0.0.1:8388")).toBe(
+			"ss://aes-256-gcm:s3cret@10.0.0.1:8388",
+		);
+		const legacy = Buffer.from("aes-256-gcm:s3cret@10.0.0.1:8388").toString(
+			"base64",
+		);
+		expect(convert(`ss://${legacy}#tag`)).toBe(
+			"ss://aes-256-gcm:s3cret@10.0.0.1:8388",
+		);
+	});
+
+	test("convert rejects plugins, unknown ciphers and missing ports", () => {
+		expect(() =>
+			convert("ss://YWVzLTI1Ni1nY206czNjcmV0@h:8388/?plugin=obfs-local"),
+		).toThrow("plugins are not supported");
+		expect(() => convert("ss://rc4-md5:pw@h:8388")).toThrow(
+			"Unsupported Shadowsocks cipher: rc4-md5",
+		);
+		expect(() => convert("ss://aes-256-gcm:pw@h")).toThrow(
+			"must include the server port",
+		);
+	});
+
+	test("parseProxyUrl reads the cipher and password from SIP002 userinfo", () => {
+		expect(
+			parseProxyUrl("ss://YWVzLTI1Ni1nY206czNjcmV0@ss.example.com"),
+		).toEqual({
+			host: "ss.example.com",
+			port: 8388,
+			user: "aes-256-gcm",
+			password: "s3cret",
+			protocol: "ss",
+		});
+	});
+});
+
+describe("fetch over Shadowsocks", () => {
+	test("tunnels a request with aes-256-gcm", async () => {
+		const res = await fetch(`http://target.test:${targetPort}/a?b=1`, {
+			proxy: aes256.url,
+		});
+		expect(await res.text()).toBe("GET /a?b=1 HTTP/1.1 0");
+		expect(aes256.requests).toEqual([
+			{ host: "target.test", port: targetPort },
+		]);
+	});
+
+	test("works with aes-128-gcm and a password needing encoding", async () => {
+		const res = await fetch(`http://target.test:${targetPort}/`, {
+			proxy: aes128.url,
+		});
+		expect(res.status).toBe(200);
+	});
+
+	test("splits large bodies into multiple AEAD chunks both ways", async () => {
+		const upload = await fetch(`http://target.test:${targetPort}/up`, {
+			method: "POST",
+			body: "y".repeat(BIG),
+			proxy: aes256.url,
+		});
+		expect(await upload.text()).toBe(`POST /up HTTP/1.1 ${BIG}`);
+
+		const download = await fetch(`http://target.test:${targetPort}/big`, {
+			proxy: aes256.url,
+		});
+		expect((await download.text()).length).toBe(BIG);
+	});
+
+	test("runs TLS to the target inside the tunnel", async () => {
+		const res = await fetch(`https://target.test:${tlsPort}/secure`, {
+			proxy: aes256.url,
+			tls: { ca: cert },
+		});
+		expect(await res.text()).toBe("GET /secure HTTP/1.1 0");
+	});
+
+	test("pooled tunnels are reused", async () => {
+		for (const path of ["/1", "/2"]) {
+			const res = await fetch(`http://target.test:${targetPort}${path}`, {
+				proxy: aes256.url,
+			});
+			await res.text();
+		}
+		expect(aes256.requests).toHaveLength(1);
+		expect(connections).toBe(1);
+	});
+
+	test("a wrong password is dropped by the server", async () => {
+		const userinfo = Buffer.from("aes-256-gcm:wrong").toString("base64url");
+		await expect(
+			fetch(`http://target.test:${targetPort}/`, {
+				proxy: `ss://${userinfo}@127.0.0.1:${aes256.port}`,
+			}),
+		).rejects.toThrow();
+		expect(aes256.rejected).toBe(1);
+		expect(aes256.requests).toHaveLength(0);
+	});
+
+	test("can be the last hop of a chain", async () => {
+		const res = await fetch(`http://target.test:${targetPort}/chained`, {
+			proxy: [socks.url, aes256.url],
+		});
+		expect(await res.text()).toBe("GET /chained HTTP/1.1 0");
+		expect(socks.requests[0]?.port).toBe(aes256.port);
+	});
+
+	test("connect() tunnels behave like sockets", async () => {
+		const socket = await connect({
+			host: "target.test",
+			port: targetPort,
+			proxy: aes256.url,
+			socket: {},
+		});
+		try {
+			socket.unref();
+			socket.ref();
+			expect(socket.readyState).toBe("open");
+		} finally {
+			socket.terminate();
+		}
+		const raw = await connect({
+			host: "target.test",
+			port: targetPort,
+			proxy: aes256.url,
+		});
+		try {
+			raw.setKeepAlive(true, 1000);
+			expect(raw.address()).toMatchObject({ address: "127.0.0.1" });
+			expect(raw.remotePort).toBe(aes256.port);
+		} finally {
+			raw.destroy();
+		}
+	});
+
+	const chacha = getCiphers().includes("chacha20-poly1305");
+
+	test.skipIf(!chacha)(
+		"tunnels a request with chacha20-ietf-poly1305",
+		async () => {
+			const server = new MockShadowsocksServer("chacha20-ietf-poly1305", "pw");
+			await server.listen();
+			try {
+				const res = await fetch(`http://127.0.0.1:${targetPort}/c`, {
+					proxy: server.url,
+				});
+				expect(await res.text()).toBe("GET /c HTTP/1.1 0");
+			} finally {
+				await server.close();
+			}
+		},
+	);
+
+	test.skipIf(chacha)("reports a cipher the runtime lacks", async () => {
+		await expect(
+			fetch(`http://127.0.0.1:${targetPort}/`, {
+				proxy: "ss://chacha20-ietf-poly1305:pw@127.0.0.1:8388",
+			}),
+		).rejects.toThrow("not available in this runtime's node:crypto");
+	});
+});
@@ -0,0 +1,235 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as net from "node:net";
+import { globalConnectionPool } from "../src/connection-pool";
+import { fetch } from "../src/fetch";
+import { buildSocks4Request, connectSocks4 } from "../src/socks4";
+
+// Minimal SOCKS4/4a proxy: records the CONNECT request, answers with the
+// configured reply code and then plays the target itself — every HTTP request
+// that comes through the tunnel gets a fixed 200 response.
+type Socks4Request = {
+	port: number;
+	ip: string;
+	userId: string;
+	hostname: string | null;
+};
+
+class MockSocks4Server {
+	private server: net.Server;
+	port = 0;
+	replyCode = 0x5a;
+	requests: Socks4Request[] = [];
+
+	constructor() {
+		this.server = net.createServer((sock) => this.onConn(sock));
+	}
+
+	async listen(): Promise<void> {
+		await new Promise<void>((r) =>
+			this.server.listen(0, "127.0.0.1", () => r()),
+		);
+		const addr = this.server.address();
+		if (typeof addr === "string" || addr === null) throw new Error("bad addr");
+		this.port = addr.port;
+	}
+
+	close(): Promise<void> {
+		return new Promise((r) => this.server.close(() => r()));
+	}
+
+	private onConn(sock: net.Socket) {
+		let buf = Buffer.alloc(0);
+		let tunnel = false;
+		sock.on("data", (chunk) => {
+			if (tunnel) {
+				if (chunk.includes("\r\n\r\n")) {
+					sock.write("HTTP/1.1 200 OK\r\nContent-Length: 6\r\n\r\nsocks4");
+				}
+				return;
+			}
+			buf = Buffer.concat([buf, chunk]);
+			const userEnd = buf.indexOf(0x00, 8);
+			if (userEnd === -1) return;
+			const ip = [...buf.subarray(4, 8)].join(".");
+			let hostname: string | null = null;
+			if (ip.startsWith("0.0.0.") && ip !== "0.0.0.0") {
+				const hostEnd = buf.indexOf(0x00, userEnd + 1);
+				if (hostEnd === -1) return;
+				hostname = buf.subarray(userEnd + 1, hostEnd).toString();
+			}
+			this.requests.push({
+				port: buf.readUInt16BE(2),
+				ip,
+				userId: buf.subarray(8, userEnd).toString(),
+				hostname,
+			});
+			sock.write(Buffer.from([0x00, this.replyCode, 0, 0, 0, 0, 0, 0]));
+			if (this.replyCode !== 0x5a) {
+				sock.end();
+				return;
+			}
+			tunnel = true;
+		});
+		sock.on("error", () => sock.destroy());
+	}
+}
+
+let proxy: MockSocks4Server;
+
+beforeAll(async () => {
+	proxy = new MockSocks4Server();
+	await proxy.listen();
+});
+
+afterAll(async () => {
+	globalConnectionPool.clear();
+	await proxy.close();
+});
+
+describe("buildSocks4Request", () => {
+	test("SOCKS4 carries the IPv4 address and a NUL-terminated user-id", () => {
+		const req = buildSocks4Request(80, "10.1.2.3", "bob");
+		expect([...req]).toEqual([
+			0x04, 0x01, 0x00, 0x50, 10, 1, 2, 3, 0x62, 0x6f, 0x62, 0x00,
+		]);
+	});
+
+	test("SOCKS4a uses 0.0.0.1 and appends the hostname", () => {
+		const req = buildSocks4Request(443, null, "", "example.com");
+		expect([...req.subarray(0, 9)]).toEqual([
+			0x04, 0x01, 0x01, 0xbb, 0, 0, 0, 1, 0x00,
+		]);
+		expect(req.subarray(9).toString()).toBe("example.com\0");
+	});
+});
+
+describe("connectSocks4", () => {
+	test("socks4a sends the hostname to the proxy", async () => {
+		proxy.requests.length = 0;
+		const sock = await connectSocks4(
+			{ host: "127.0.0.1", port: proxy.port, user: "me", protocol: "socks4a" },
+			"example.com",
+			8080,
+		);
+		sock.destroy();
+		expect(proxy.requests[0]).toEqual({
+			port: 8080,
+			ip: "0.0.0.1",
+			userId: "me",
+			hostname: "example.com",
+		});
+	});
+
+	test("IPv4 literals are sent directly, even over socks4a", async () => {
+		proxy.requests.length = 0;
+		const sock = await connectSocks4(
+			{ host: "127.0.0.1", port: proxy.port, user: "", protocol: "socks4a" },
+			"192.0.2.7",
+			80,
+		);
+		sock.destroy();
+		expect(proxy.requests[0]?.ip).toBe("192.0.2.7");
+		expect(proxy.requests[0]?.hostname).toBeNull();
+	});
+
+	test("IPv6 targets are rejected before connecting", async () => {
+		await expect(
+			connectSocks4(
+				{ host: "127.0.0.1", port: proxy.port, user: "", protocol: "socks4" },
+				"2001:db8::1",
+				80,
+			),
+		).rejects.toThrow(/IPv6/);
+	});
+
+	test("rejected request surfaces the reply reason", async () => {
+		proxy.replyCode = 0x5b;
+		try {
+			await expect(
+				connectSocks4(
+					{
+						host: "127.0.0.1",
+						port: proxy.port,
+						user: "",
+						protocol: "socks4a",
+					},
+					"example.com",
+					80,
+				),
+			).rejects.toThrow(/SOCKS4 Connect failed: request rejected/);
+		} finally {
+			proxy.replyCode = 0x5a;
+		}
+	});
+
+	test("a proxy that hangs up fails at once, not at the timeout", async () => {
+		const hangUp = net.createServer((sock) =>
+			sock.once("data", () => sock.end()),
+		);
+		await new Promise<void>((r) => hangUp.listen(0, "127.0.0.1", () => r()));
+		const started = Date.now();
+		try {
+			await expect(
+				connectSocks4(
+					{
+						host: "127.0.0.1",
+						port: (hangUp.address() as net.AddressInfo).port,
+						user: "",
+						protocol: "socks4a",
+					},
+					"example.com",
+					80,
+				),
+			).rejects.toThrow("SOCKS4 proxy closed the connection during handshake");
+			expect(Date.now() - started).toBeLessThan(1000);
+		} finally {
+			await new Promise<void>((r) => hangUp.close(() => r()));
+		}
+	});
+
+	test("leaves the listeners of a via socket alone", async () => {
+		const via = net.connect(proxy.port, "127.0.0.1");
+		await new Promise((r) => via.once("connect", r));
+		const owned = () => {};
+		via.on("data", owned);
+		via.on("error", owned);
+		const config = {
+			host: "127.0.0.1",
+			port: proxy.port,
+			user: "",
+			protocol: "socks4a",
+		};
+		const socket = await connectSocks4(
+			config,
+			"example.com",
+			80,
+			false,
+			undefined,
+			via,
+		);
+		expect(socket.listeners("data")).toEqual([owned]);
+		expect(socket.listeners("error")).toEqual([owned]);
+		socket.destroy();
+	});
+});
+
+describe("fetch over SOCKS4", () => {
+	test("socks4a:// proxy URLs are tunnelled, not delegated to native fetch", async () => {
+		proxy.requests.length = 0;
+		const res = await fetch("http://example.com/", {
+			proxy: `socks4a://user@127.0.0.1:${proxy.port}`,
+		});
+		expect(res.status).toBe(200);
+		expect(await res.text()).toBe("socks4");
+		expect(proxy.requests[0]?.hostname).toBe("example.com");
+		expect(proxy.requests[0]?.userId).toBe("user");
+	});
+
+	test("pooled socket is reused for a second request", async () => {
+		proxy.requests.length = 0;
+		const url = `socks4a://127.0.0.1:${proxy.port}`;
+		await (await fetch("http://pool.example/", { proxy: url })).text();
+		await (await fetch("http://pool.example/", { proxy: url })).text();
+		expect(proxy.requests.length).toBe(1);
+	});
+});
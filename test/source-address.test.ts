@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as net from "node:net";
+import * as os from "node:os";
+import { fetch } from "../src/fetch";
+import { nextSourceAddress } from "../src/source-address";
+
+let proxy: net.Server;
+let proxyPort = 0;
+/** Remote address of every connection the forwarding proxy accepted. */
+const clients: string[] = [];
+const open = new Set<net.Socket>();
+
+beforeAll(async () => {
+	// A forwarding HTTP proxy that answers every request itself, on a
+	// keep-alive connection.
+	proxy = net.createServer((sock) => {
+		clients.push(sock.remoteAddress as string);
+		open.add(sock);
+		sock.on("close", () => open.delete(sock));
+		sock.on("error", () => sock.destroy());
+		sock.on("data", () =>
+			sock.write("HTTP/1.1 200 OK\r\nContent-Length: 2\r\n\r\nok"),
+		);
+	});
+	await new Promise<void>((r) => proxy.listen(0, "127.0.0.1", () => r()));
+	proxyPort = (proxy.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	for (const sock of open) sock.destroy();
+	await new Promise<void>((r) => proxy.close(() => r()));
+});
+
+describe("nextSourceAddress", () => {
+	test("uses a single address as is", () => {
+		expect(nextSourceAddress("192.0.2.7")).toBe("192.0.2.7");
+		expect(nextSourceAddress("192.0.2.7")).toBe("192.0.2.7");
+	});
+
+	test("rotates through addresses and the hosts of CIDR blocks", () => {
+		const spec = ["192.0.2.7", "198.51.100.0/30"];
+		expect([1, 2, 3, 4].map(() => nextSourceAddress(spec))).toEqual([
+			"192.0.2.7",
+			"198.51.100.1",
+			"198.51.100.2",
+			"192.0.2.7",
+		]);
+	});
+
+	test("walks IPv6 blocks in canonical form", () => {
+		const spec = ["2001:db8::/126"];
+		expect([1, 2, 3, 4].map(() => nextSourceAddress(spec))).toEqual([
+			"2001:db8::1",
+			"2001:db8::2",
+			"2001:db8::3",
+			"2001:db8::1",
+		]);
+		expect(nextSourceAddress(["2001:db8::ff00:0/127"])).toBe(
+			"2001:db8::ff00:0",
+		);
+	});
+
+	test("expands an interface name to its addresses", () => {
+		const name = Object.keys(os.networkInterfaces())[0] as string;
+		const address = os.networkInterfaces()[name]?.[0]?.address;
+		expect(nextSourceAddress([name])).toBe(address as string);
+	});
+
+	test("rejects entries that are not addresses", () => {
+		expect(() => nextSourceAddress(["192.0.2.0/33"])).toThrow(
+			"Invalid local address: 192.0.2.0/33",
+		);
+		expect(() => nextSourceAddress(["no-such-nic0"])).toThrow(
+			"Invalid local address: no-such-nic0",
+		);
+	});
+});
+
+describe("fetch with localAddress", () => {
+	test("connects from each source in turn and pools per source", async () => {
+		clients.length = 0;
+		const proxyOptions = {
+			url: `http://127.0.0.1:${proxyPort}`,
+			localAddress: ["127.0.0.2", "127.0.0.3"],
+		};
+		for (let i = 0; i < 3; i++) {
+			const res = await fetch("http://target.test/", { proxy: proxyOptions });
+			expect(await res.text()).toBe("ok");
+		}
+		// The third request reused the first connection from 127.0.0.2.
+		expect(clients).toEqual(["127.0.0.2", "127.0.0.3"]);
+	});
+
+	test("rotates sources for direct and bypassed requests", async () => {
+		clients.length = 0;
+		const url = `http://127.0.0.1:${proxyPort}/direct`;
+		const localAddress = ["127.0.0.4", "127.0.0.5"];
+		for (let i = 0; i < 3; i++) {
+			const res = await fetch(url, { proxy: null, localAddress });
+			expect(await res.text()).toBe("ok");
+		}
+		expect(clients).toEqual(["127.0.0.4", "127.0.0.5"]);
+
+		const res = await fetch(url, {
+			proxy: {
+				url: "socks5://127.0.0.1:1",
+				bypass: "127.0.0.1",
+				localAddress: "127.0.0.6",
+			},
+		});
+		expect(await res.text()).toBe("ok");
+		expect(clients).toEqual(["127.0.0.4", "127.0.0.5", "127.0.0.6"]);
+	});
+
+	test("refuses a proxy family that the proxy host lacks", async () => {
+		await expect(
+			fetch("http://target.test/", {
+				proxy: { url: `http://127.0.0.1:${proxyPort}`, proxyFamily: 6 },
+			}),
+		).rejects.toThrow("127.0.0.1 has no IPv6 address to connect to");
+	});
+});
@@ -0,0 +1,180 @@
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import * as net from "node:net";
+import { connect, dialTarget } from "../src/connect";
+import { globalConnectionPool } from "../src/connection-pool";
+import { StrictModeError } from "../src/errors";
+import { fetch } from "../src/fetch";
+import { onLocalLookup } from "../src/lookup";
+import { MockSocks5Server } from "./mock-socks5";
+
+let socks: MockSocks5Server;
+let target: net.Server;
+let targetPort = 0;
+/** Hostnames looked up on the host while a test ran. */
+const lookups: string[] = [];
+let stopWatching: () => void;
+
+async function violationOf(promise: Promise<unknown>): Promise<string> {
+	const err = await promise.then(
+		() => null,
+		(e) => e,
+	);
+	expect(err).toBeInstanceOf(StrictModeError);
+	return (err as StrictModeError).violation;
+}
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	await socks.listen();
+	target = net.createServer((sock) => {
+		sock.on("error", () => sock.destroy());
+		sock.once("data", () =>
+			sock.end("HTTP/1.1 200 OK\r\nContent-Length: 2\r\n\r\nok"),
+		);
+	});
+	await new Promise<void>((r) => target.listen(0, "127.0.0.1", () => r()));
+	targetPort = (target.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	globalConnectionPool.clear();
+	await socks.close();
+	await new Promise<void>((r) => target.close(() => r()));
+});
+
+beforeEach(() => {
+	socks.reset();
+	socks.hosts.set("target.test", "127.0.0.1");
+	lookups.length = 0;
+	stopWatching = onLocalLookup((hostname) => lookups.push(hostname));
+});
+
+afterEach(() => {
+	stopWatching();
+});
+
+describe("strict mode", () => {
+	test("sends names to the proxy without looking anything up", async () => {
+		const res = await fetch(`http://target.test:${targetPort}/`, {
+			proxy: { url: socks.url, strict: true },
+		});
+		expect(await res.text()).toBe("ok");
+		expect(socks.requests[0]).toMatchObject({
+			atyp: 0x03,
+			host: "target.test",
+		});
+		expect(lookups).toEqual([]);
+	});
+
+	test("does not fall back to the environment or a direct connection", async () => {
+		const saved = process.env.SOCKS5_PROXY;
+		process.env.SOCKS5_PROXY = socks.url;
+		try {
+			expect(
+				await violationOf(fetch("http://target.test/", { strict: true })),
+			).toBe("fallback");
+		} finally {
+			if (saved === undefined) delete process.env.SOCKS5_PROXY;
+			else process.env.SOCKS5_PROXY = saved;
+		}
+		expect(
+			await violationOf(
+				fetch("http://target.test/", { proxy: null, strict: true }),
+			),
+		).toBe("fallback");
+		expect(socks.requests).toHaveLength(0);
+	});
+
+	test("refuses resolveDnsLocally", async () => {
+		const violation = await violationOf(
+			fetch(`http://target.test:${targetPort}/`, {
+				proxy: { url: socks.url, resolveDnsLocally: true },
+				strict: true,
+			}),
+		);
+		expect(violation).toBe("resolveDnsLocally");
+		expect(lookups).toEqual([]);
+	});
+
+	test("keeps onion and i2p names away from anything but the proxy", async () => {
+		const onion = "http://expyuzz4wqqyqhjn.onion/";
+		expect(
+			await violationOf(
+				fetch(onion, {
+					proxy: { url: socks.url, resolveDnsLocally: true, strict: true },
+				}),
+			),
+		).toBe("hiddenService");
+		expect(
+			await violationOf(
+				fetch("http://forum.i2p/", {
+					proxy: `socks4://127.0.0.1:${socks.port}`,
+					strict: true,
+				}),
+			),
+		).toBe("hiddenService");
+		expect(lookups).toEqual([]);
+	});
+
+	test("refuses to look up the proxy's own name, and reports the attempt", async () => {
+		const violation = await violationOf(
+			fetch(`http://target.test:${targetPort}/`, {
+				proxy: { url: `socks5://localhost:${socks.port}`, strict: true },
+			}),
+		);
+		expect(violation).toBe("localLookup");
+		expect(lookups).toEqual(["localhost"]);
+
+		// A pinned proxy address needs no lookup.
+		const res = await fetch(`http://target.test:${targetPort}/`, {
+			proxy: {
+				url: `socks5://localhost:${socks.port}`,
+				dns: { hosts: { localhost: "127.0.0.1" } },
+			},
+			strict: true,
+		});
+		expect(await res.text()).toBe("ok");
+	});
+
+	test("applies to connect()", async () => {
+		const violation = await violationOf(
+			connect({
+				host: "target.test",
+				port: targetPort,
+				proxy: { url: socks.url, resolveDnsLocally: true, strict: true },
+			}),
+		);
+		expect(violation).toBe("resolveDnsLocally");
+	});
+});
+
+describe("onLocalLookup", () => {
+	test("reports lookups made outside strict mode", async () => {
+		const res = await fetch(`http://localhost:${targetPort}/`, {
+			proxy: { url: socks.url, resolveDnsLocally: true, family: "ipv4only" },
+		});
+		expect(await res.text()).toBe("ok");
+		expect(lookups).toEqual(["localhost"]);
+	});
+
+	test("reports the lookups of direct fetches and sockets", async () => {
+		const res = await fetch(`http://localhost:${targetPort}/`, { proxy: null });
+		expect(await res.text()).toBe("ok");
+		const socket = await dialTarget({
+			host: "localhost",
+			port: targetPort,
+			proxy: null,
+		});
+		socket.destroy();
+		await fetch(`http://127.0.0.1:${targetPort}/`, { proxy: null });
+		expect(lookups).toEqual(["localhost", "localhost"]);
+	});
+});
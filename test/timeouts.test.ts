@@ -0,0 +1,220 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	spyOn,
+	test,
+} from "bun:test";
+import * as net from "node:net";
+import { bindSocks5 } from "../src/bind";
+import { ProxyTimeoutError } from "../src/errors";
+import { fetch } from "../src/fetch";
+import { resolve } from "../src/resolve";
+import { resolveTimeouts } from "../src/timeouts";
+import { udpAssociate } from "../src/udp";
+import { MockSocks5Server } from "./mock-socks5";
+
+let socks: MockSocks5Server;
+let silent: net.Server;
+let target: net.Server;
+let silentPort = 0;
+let targetPort = 0;
+const open = new Set<net.Socket>();
+
+/**
+ * `/stall` never answers, `/drip` sends the head and half the body, then
+ * stops; anything else gets a prompt 200.
+ */
+function handle(sock: net.Socket) {
+	open.add(sock);
+	sock.on("close", () => open.delete(sock));
+	sock.on("error", () => sock.destroy());
+	sock.once("data", (data) => {
+		const path = data.toString("latin1").split(" ")[1];
+		if (path === "/stall") return;
+		if (path === "/drip") {
+			sock.write("HTTP/1.1 200 OK\r\nContent-Length: 10\r\n\r\nhello");
+			return;
+		}
+		sock.end("HTTP/1.1 200 OK\r\nContent-Length: 2\r\n\r\nok");
+	});
+}
+
+async function timeoutOf(
+	promise: Promise<unknown>,
+): Promise<ProxyTimeoutError> {
+	const err = await promise.then(
+		() => null,
+		(e) => e,
+	);
+	expect(err).toBeInstanceOf(ProxyTimeoutError);
+	return err as ProxyTimeoutError;
+}
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	await socks.listen();
+	// Accepts connections and never answers: a stuck proxy or TLS server.
+	silent = net.createServer((sock) => {
+		open.add(sock);
+		sock.on("close", () => open.delete(sock));
+		sock.on("error", () => {});
+	});
+	target = net.createServer(handle);
+	for (const server of [silent, target]) {
+		await new Promise<void>((r) => server.listen(0, "127.0.0.1", () => r()));
+	}
+	silentPort = (silent.address() as net.AddressInfo).port;
+	targetPort = (target.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	for (const sock of open) sock.destroy();
+	await socks.close();
+	await new Promise<void>((r) => silent.close(() => r()));
+	await new Promise<void>((r) => target.close(() => r()));
+});
+
+beforeEach(() => {
+	socks.reset();
+	socks.hosts.set("target.test", "127.0.0.1");
+});
+
+describe("resolveTimeouts", () => {
+	test("layers settings over the defaults, phase by phase", () => {
+		expect(
+			resolveTimeouts({ handshake: 5000, firstByte: 1000 }, { firstByte: 200 }),
+		).toEqual({ connect: 30000, handshake: 5000, firstByte: 200 });
+		expect(resolveTimeouts(undefined, { connect: 0 })).toEqual({
+			connect: 0,
+			handshake: 30000,
+		});
+	});
+});
+
+describe("phase timeouts", () => {
+	test("connect: the proxy never accepts the connection", async () => {
+		// 127.0.0.3 stands in for a blackholed proxy address.
+		const connect = net.connect;
+		const spy = spyOn(net, "connect").mockImplementation(((
+			options: net.TcpNetConnectOpts,
+		) =>
+			options.host === "127.0.0.3"
+				? new net.Socket()
+				: connect(options)) as unknown as typeof net.connect);
+		try {
+			const err = await timeoutOf(
+				fetch(`http://target.test:${targetPort}/`, {
+					proxy: "socks5://127.0.0.3:1080",
+					timeouts: { connect: 100 },
+				}),
+			);
+			expect(err.name).toBe("ConnectTimeoutError");
+			expect(err.phase).toBe("connect");
+			expect(err.message).toBe("Connecting to the proxy timed out after 100ms");
+		} finally {
+			spy.mockRestore();
+		}
+	});
+
+	test("connect: a direct request from a source address", async () => {
+		// As above, 127.0.0.3 stands in for a blackholed target.
+		const connect = net.connect;
+		const spy = spyOn(net, "connect").mockImplementation(((
+			options: net.TcpNetConnectOpts,
+		) =>
+			options.host === "127.0.0.3"
+				? new net.Socket()
+				: connect(options)) as unknown as typeof net.connect);
+		try {
+			const err = await timeoutOf(
+				fetch("http://127.0.0.3:8080/", {
+					proxy: null,
+					localAddress: "127.0.0.1",
+					timeouts: { connect: 100 },
+				}),
+			);
+			expect(err.phase).toBe("connect");
+			expect(err.timeout).toBe(100);
+		} finally {
+			spy.mockRestore();
+		}
+	});
+
+	test("handshake: the proxy accepts but never answers", async () => {
+		const err = await timeoutOf(
+			fetch(`http://target.test:${targetPort}/`, {
+				proxy: {
+					url: `socks5://127.0.0.1:${silentPort}`,
+					timeouts: { handshake: 100 },
+				},
+			}),
+		);
+		expect(err.name).toBe("ProxyHandshakeTimeoutError");
+		expect(err.timeout).toBe(100);
+	});
+
+	test("handshake: resolve, BIND and UDP ASSOCIATE give up too", async () => {
+		const proxy = `socks5://127.0.0.1:${silentPort}`;
+		const timeouts = { handshake: 100 };
+		for (const attempt of [
+			resolve("target.test", { proxy, timeouts }),
+			bindSocks5(proxy, "127.0.0.1", 21, { timeouts }),
+			udpAssociate(proxy, { timeouts }),
+		]) {
+			const err = await timeoutOf(attempt);
+			expect(err.name).toBe("ProxyHandshakeTimeoutError");
+		}
+	});
+
+	test("tls: the target never answers the ClientHello", async () => {
+		const err = await timeoutOf(
+			fetch(`https://target.test:${silentPort}/`, {
+				proxy: socks.url,
+				timeouts: { tls: 100 },
+			}),
+		);
+		expect(err.name).toBe("TlsHandshakeTimeoutError");
+	});
+
+	test("firstByte: the target never responds", async () => {
+		const err = await timeoutOf(
+			fetch(`http://target.test:${targetPort}/stall`, {
+				proxy: socks.url,
+				timeouts: { firstByte: 100 },
+			}),
+		);
+		expect(err.name).toBe("FirstByteTimeoutError");
+	});
+
+	test("bodyIdle: the body stalls halfway", async () => {
+		const err = await timeoutOf(
+			fetch(`http://target.test:${targetPort}/drip`, {
+				proxy: socks.url,
+				timeouts: { firstByte: 5000, bodyIdle: 100 },
+			}),
+		);
+		expect(err.name).toBe("BodyIdleTimeoutError");
+	});
+
+	test("total: covers the request end to end", async () => {
+		const started = Date.now();
+		const err = await timeoutOf(
+			fetch(`http://target.test:${targetPort}/stall`, {
+				proxy: { url: socks.url, timeouts: { total: 150 } },
+			}),
+		);
+		expect(err.name).toBe("TotalTimeoutError");
+		expect(Date.now() - started).toBeLessThan(2000);
+	});
+
+	test("per-request settings override the proxy's", async () => {
+		const res = await fetch(`http://target.test:${targetPort}/`, {
+			proxy: { url: socks.url, timeouts: { firstByte: 1 } },
+			timeouts: { firstByte: 5000 },
+		});
+		expect(await res.text()).toBe("ok");
+	});
+});
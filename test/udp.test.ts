@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as dgram from "node:dgram";
+import {
+	type Socks5UdpRemoteInfo,
+	udpAssociate,
+	unwrapUdpDatagram,
+	wrapUdpDatagram,
+} from "../src/udp";
+import { MockSocks5Server } from "./mock-socks5";
+
+let proxy: MockSocks5Server;
+let echo: dgram.Socket;
+let echoPort = 0;
+
+beforeAll(async () => {
+	proxy = new MockSocks5Server();
+	await proxy.listen();
+
+	// UDP echo server standing in for a remote peer (DNS, NTP, ...)
+	echo = dgram.createSocket("udp4");
+	echo.on("message", (msg, rinfo) => {
+		echo.send(
+			Buffer.concat([Buffer.from("echo:"), msg]),
+			rinfo.port,
+			rinfo.address,
+		);
+	});
+	await new Promise<void>((r) => echo.bind(0, "127.0.0.1", () => r()));
+	echoPort = echo.address().port;
+});
+
+afterAll(async () => {
+	echo.close();
+	await proxy.close();
+});
+
+function nextMessage(
+	udp: Awaited<ReturnType<typeof udpAssociate>>,
+): Promise<[Buffer, Socks5UdpRemoteInfo]> {
+	return new Promise((resolve) => {
+		udp.once("message", (msg, rinfo) => resolve([msg, rinfo]));
+	});
+}
+
+describe("UDP request header", () => {
+	test("wraps IPv4 destinations with ATYP 0x01", () => {
+		const dg = wrapUdpDatagram(Buffer.from("hi"), "10.0.0.1", 53);
+		expect([...dg]).toEqual([0, 0, 0, 0x01, 10, 0, 0, 1, 0, 53, 0x68, 0x69]);
+	});
+
+	test("wraps hostnames with ATYP 0x03", () => {
+		const dg = wrapUdpDatagram(Buffer.from("x"), "ns.local", 53);
+		expect([...dg.subarray(0, 5)]).toEqual([0, 0, 0, 0x03, 8]);
+		expect(dg.subarray(5, 13).toString()).toBe("ns.local");
+	});
+
+	test("unwrap round-trips a wrapped datagram", () => {
+		const dg = wrapUdpDatagram(Buffer.from("payload"), "192.0.2.9", 123);
+		const out = unwrapUdpDatagram(dg);
+		expect(out?.from).toEqual({ host: "192.0.2.9", port: 123 });
+		expect(out?.payload.toString()).toBe("payload");
+	});
+
+	test("fragments and truncated headers are dropped", () => {
+		const dg = wrapUdpDatagram(Buffer.from("x"), "10.0.0.1", 1);
+		dg[2] = 0x01;
+		expect(unwrapUdpDatagram(dg)).toBeNull();
+		expect(unwrapUdpDatagram(Buffer.from([0, 0, 0, 0x01, 10]))).toBeNull();
+	});
+});
+
+describe("udpAssociate", () => {
+	test("relays datagrams both ways through the proxy", async () => {
+		proxy.reset();
+		const udp = await udpAssociate(proxy.url);
+		try {
+			expect(proxy.requests[0]?.cmd).toBe(0x03);
+			const reply = nextMessage(udp);
+			await udp.send("ping", echoPort, "127.0.0.1");
+			const [msg, rinfo] = await reply;
+			expect(msg.toString()).toBe("echo:ping");
+			expect(rinfo.address).toBe("127.0.0.1");
+			expect(rinfo.port).toBe(echoPort);
+		} finally {
+			udp.close();
+		}
+	});
+
+	test("uses the proxy's address for a named or IPv4-mapped relay", async () => {
+		for (const form of ["name", "mapped"] as const) {
+			proxy.reset();
+			proxy.relayAddress = form;
+			const udp = await udpAssociate(proxy.url);
+			try {
+				expect(udp.relay.host).toBe("127.0.0.1");
+				const reply = nextMessage(udp);
+				await udp.send("ping", echoPort, "127.0.0.1");
+				expect((await reply)[0].toString()).toBe("echo:ping");
+			} finally {
+				udp.close();
+			}
+		}
+	});
+
+	test("authenticates with username/password", async () => {
+		proxy.reset();
+		proxy.auth = { user: "u", password: "p" };
+		const udp = await udpAssociate(proxy.url);
+		udp.close();
+		expect(proxy.credentials).toEqual([{ user: "u", password: "p" }]);
+		proxy.reset();
+	});
+
+	test("closing the association closes the control connection", async () => {
+		proxy.reset();
+		const udp = await udpAssociate(proxy.url);
+		const closed = new Promise<void>((r) => udp.once("close", () => r()));
+		udp.close();
+		await closed;
+		await expect(udp.send("late", echoPort, "127.0.0.1")).rejects.toThrow(
+			/closed/,
+		);
+	});
+
+	test("a failed ASSOCIATE reply rejects", async () => {
+		proxy.reset();
+		proxy.replyCode = 0x07;
+		await expect(udpAssociate(proxy.url)).rejects.toThrow(
+			/UDP associate failed/,
+		);
+		proxy.reset();
+	});
+
+	test("non-SOCKS5 proxies are rejected", async () => {
+		await expect(udpAssociate("socks4://127.0.0.1:1080")).rejects.toThrow(
+			/requires a SOCKS5 proxy/,
+		);
+	});
+});
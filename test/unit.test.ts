@@ -76,8 +76,25 @@ describe("parseProxyUrl", () => {
 		);
 	});
 
-	test("rejects socks4 (not supported)", () => {
-		expect(() => internals.parseProxyUrl("socks4://127.0.0.1:1080")).toThrow(
+	test("parses socks4 and socks4a URLs", () => {
+		expect(internals.parseProxyUrl("socks4://127.0.0.1:1080")).toEqual({
+			host: "127.0.0.1",
+			port: 1080,
+			user: "",
+			password: "",
+			protocol: "socks4",
+		});
+		expect(internals.parseProxyUrl("socks4a://userid@proxy.local")).toEqual({
+			host: "proxy.local",
+			port: 1080,
+			user: "userid",
+			password: "",
+			protocol: "socks4a",
+		});
+	});
+
+	test("rejects unknown socks versions", () => {
+		expect(() => internals.parseProxyUrl("socks6://127.0.0.1:1080")).toThrow(
 			/Unsupported proxy protocol/,
 		);
 	});
@@ -154,11 +171,11 @@ describe("fetchInternal: invalid proxy URL handling", () => {
 		).rejects.toThrow(/garbage:\/\/x/);
 	});
 
-	test("rejects unsupported socks4 with a clear error (no silent native fallback)", async () => {
+	test("rejects unsupported socks6 with a clear error (no silent native fallback)", async () => {
 		await expect(
 			internals.fetchInternal("https://example.com/", {
-				proxy: "socks4://1.2.3.4:1080",
+				proxy: "socks6://1.2.3.4:1080",
 			}),
-		).rejects.toThrow(/socks4/);
+		).rejects.toThrow(/socks6/);
 	});
 });
@@ -0,0 +1,140 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import * as net from "node:net";
+import * as tls from "node:tls";
+import { upgrade } from "../src/upgrade";
+import { MockHttpProxy } from "./mock-http-proxy";
+import { MockSocks5Server } from "./mock-socks5";
+import { cert, key } from "./tls-cert";
+
+let socks: MockSocks5Server;
+let http: MockHttpProxy;
+let server: net.Server;
+let tlsServer: tls.Server;
+let port = 0;
+let tlsPort = 0;
+/** Raw head of every request the server received. */
+const heads: string[] = [];
+
+/**
+ * Switches to a line echo protocol when asked for `Upgrade: echo`, greeting
+ * in the same packet as the 101 so the greeting lands in `head`. Other
+ * upgrades get 426.
+ */
+function handle(sock: net.Socket) {
+	sock.on("error", () => sock.destroy());
+	sock.once("data", (data) => {
+		const head = data.toString("latin1");
+		heads.push(head);
+		if (!/^upgrade: echo\r$/im.test(head)) {
+			sock.end(
+				"HTTP/1.1 426 Upgrade Required\r\nUpgrade: echo\r\nContent-Length: 0\r\n\r\n",
+			);
+			return;
+		}
+		sock.write(
+			"HTTP/1.1 101 Switching Protocols\r\nUpgrade: echo\r\nConnection: Upgrade\r\n\r\nhello\n",
+		);
+		sock.on("data", (chunk) => sock.write(chunk));
+		sock.on("end", () => sock.end());
+	});
+}
+
+function readUntil(socket: net.Socket, text: string): Promise<string> {
+	return new Promise((resolve) => {
+		let buf = "";
+		const onData = (chunk: Buffer) => {
+			buf += chunk.toString();
+			if (buf.includes(text)) {
+				socket.removeListener("data", onData);
+				resolve(buf);
+			}
+		};
+		socket.on("data", onData);
+	});
+}
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	http = new MockHttpProxy();
+	await Promise.all([socks.listen(), http.listen()]);
+	server = net.createServer(handle);
+	tlsServer = tls.createServer({ key, cert }, handle);
+	await new Promise<void>((r) => server.listen(0, "127.0.0.1", () => r()));
+	await new Promise<void>((r) => tlsServer.listen(0, "127.0.0.1", () => r()));
+	port = (server.address() as net.AddressInfo).port;
+	tlsPort = (tlsServer.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	await Promise.all([socks.close(), http.close()]);
+	await new Promise<void>((r) => server.close(() => r()));
+	await new Promise<void>((r) => tlsServer.close(() => r()));
+});
+
+beforeEach(() => {
+	socks.reset();
+	http.reset();
+	socks.hosts.set("target.test", "127.0.0.1");
+	http.hosts.set("target.test", "127.0.0.1");
+	heads.length = 0;
+});
+
+describe("upgrade", () => {
+	test("returns the 101 response, the socket and the early bytes", async () => {
+		const { response, socket, head } = await upgrade(
+			`http://target.test:${port}/tunnel?x=1`,
+			{
+				protocol: "echo",
+				proxy: socks.url,
+				headers: { Connection: "keep-alive", "X-Token": "t" },
+			},
+		);
+		expect(response.status).toBe(101);
+		expect(response.headers.get("upgrade")).toBe("echo");
+		expect(head.toString()).toBe("hello\n");
+		expect(socks.requests[0]?.host).toBe("target.test");
+
+		const request = heads[0] as string;
+		expect(request.startsWith("GET /tunnel?x=1 HTTP/1.1\r\n")).toBe(true);
+		expect(request).toMatch(/^connection: keep-alive, Upgrade\r$/im);
+		expect(request).toMatch(/^x-token: t\r$/im);
+
+		// Paused until the caller is ready, so the echo waits for a listener.
+		socket.write("ping\n");
+		await Bun.sleep(50);
+		const echoed = readUntil(socket, "ping\n");
+		socket.resume();
+		expect(await echoed).toBe("ping\n");
+		socket.destroy();
+	});
+
+	test("runs TLS to the target through an HTTP proxy", async () => {
+		const { socket, head } = await upgrade(`https://target.test:${tlsPort}/`, {
+			protocol: "echo",
+			method: "POST",
+			proxy: http.url,
+			tls: { ca: cert },
+		});
+		expect(socket).toBeInstanceOf(tls.TLSSocket);
+		expect(head.toString()).toBe("hello\n");
+		expect(heads[0]?.startsWith("POST / HTTP/1.1\r\n")).toBe(true);
+		expect(http.requests[0]?.target).toBe(`target.test:${tlsPort}`);
+		socket.destroy();
+	});
+
+	test("rejects when the server does not switch protocols", async () => {
+		await expect(
+			upgrade(`http://target.test:${port}/`, {
+				protocol: "h2c",
+				proxy: socks.url,
+			}),
+		).rejects.toThrow("Upgrade to h2c was refused: 426 Upgrade Required");
+	});
+});
@@ -0,0 +1,325 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import { createHash } from "node:crypto";
+import * as net from "node:net";
+import type { Server } from "bun";
+import { WebSocket } from "../src/websocket";
+import { MockHttpProxy } from "./mock-http-proxy";
+import { MockSocks5Server } from "./mock-socks5";
+import { cert, key } from "./tls-cert";
+
+let socks: MockSocks5Server;
+let http: MockHttpProxy;
+let plain: Server<undefined>;
+let deflate: Server<undefined>;
+let secure: Server<undefined>;
+let raw: net.Server;
+let rawPort = 0;
+/** Frame the raw server sends right after the handshake. */
+let rawFrame = Buffer.alloc(0);
+const serverCloses: { code: number; reason: string }[] = [];
+
+/** Echo server; "close:<code>" makes the server close with that code. */
+function serve(options: { perMessageDeflate?: boolean; tls?: boolean }) {
+	return Bun.serve({
+		hostname: "127.0.0.1",
+		port: 0,
+		tls: options.tls ? { key, cert } : undefined,
+		fetch(req, server) {
+			if (new URL(req.url).pathname === "/forbidden") {
+				return new Response("no", { status: 403 });
+			}
+			const offered = req.headers.get("sec-websocket-protocol");
+			const headers = offered
+				? { "Sec-WebSocket-Protocol": offered.split(",")[0]?.trim() ?? "" }
+				: undefined;
+			return server.upgrade(req, { headers })
+				? undefined
+				: new Response("upgrade failed", { status: 400 });
+		},
+		websocket: {
+			perMessageDeflate: options.perMessageDeflate ?? false,
+			message(ws, message) {
+				if (typeof message === "string" && message.startsWith("close:")) {
+					ws.close(Number(message.slice(6)), "server done");
+					return;
+				}
+				ws.send(message);
+			},
+			close(_ws, code, reason) {
+				serverCloses.push({ code, reason });
+			},
+		},
+	});
+}
+
+function opened(ws: WebSocket): Promise<void> {
+	return new Promise((resolve, reject) => {
+		ws.addEventListener("open", () => resolve(), { once: true });
+		ws.addEventListener("error", (e) => reject((e as ErrorEvent).error), {
+			once: true,
+		});
+	});
+}
+
+function nextMessage(ws: WebSocket): Promise<MessageEvent> {
+	return new Promise((resolve) => {
+		ws.addEventListener("message", (e) => resolve(e as MessageEvent), {
+			once: true,
+		});
+	});
+}
+
+function closed(ws: WebSocket): Promise<CloseEvent> {
+	return new Promise((resolve) => {
+		ws.addEventListener("close", (e) => resolve(e as CloseEvent), {
+			once: true,
+		});
+	});
+}
+
+beforeAll(async () => {
+	socks = new MockSocks5Server();
+	http = new MockHttpProxy();
+	await Promise.all([socks.listen(), http.listen()]);
+	plain = serve({});
+	deflate = serve({ perMessageDeflate: true });
+	secure = serve({ tls: true });
+
+	// Completes the handshake by hand, then sends `rawFrame`; the next client
+	// frame (the close) ends the connection.
+	raw = net.createServer((sock) => {
+		sock.on("error", () => sock.destroy());
+		sock.once("data", (chunk) => {
+			const wsKey = /sec-websocket-key: (\S+)/i.exec(chunk.toString())?.[1];
+			const accept = createHash("sha1")
+				.update(`${wsKey}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+				.digest("base64");
+			sock.write(
+				"HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\n" +
+					`Connection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`,
+			);
+			sock.write(rawFrame);
+			sock.once("data", () => sock.end());
+		});
+	});
+	await new Promise<void>((r) => raw.listen(0, "127.0.0.1", () => r()));
+	rawPort = (raw.address() as net.AddressInfo).port;
+});
+
+afterAll(async () => {
+	plain.stop(true);
+	deflate.stop(true);
+	secure.stop(true);
+	await Promise.all([socks.close(), http.close()]);
+	await new Promise<void>((r) => raw.close(() => r()));
+});
+
+beforeEach(() => {
+	socks.reset();
+	http.reset();
+	socks.hosts.set("target.test", "127.0.0.1");
+	http.hosts.set("target.test", "127.0.0.1");
+	serverCloses.length = 0;
+});
+
+describe("WebSocket", () => {
+	test("echoes text and binary through a SOCKS5 proxy", async () => {
+		const ws = new WebSocket(`ws://target.test:${plain.port}/chat`, {
+			proxy: socks.url,
+			protocols: ["chat", "superchat"],
+		});
+		await opened(ws);
+		expect(ws.readyState).toBe(WebSocket.OPEN);
+		expect(ws.protocol).toBe("chat");
+		expect(socks.requests[0]?.host).toBe("target.test");
+
+		ws.send("hello");
+		expect((await nextMessage(ws)).data).toBe("hello");
+		ws.send(new Uint8Array([1, 2, 3]));
+		const binary = (await nextMessage(ws)).data;
+		expect(Buffer.isBuffer(binary)).toBe(true);
+		expect([...binary]).toEqual([1, 2, 3]);
+
+		const done = closed(ws);
+		ws.close();
+		const event = await done;
+		expect(event.wasClean).toBe(true);
+		expect(event.code).toBe(1005);
+	});
+
+	test("tunnels through an HTTP proxy with CONNECT and honours binaryType", async () => {
+		const ws = new WebSocket(`ws://target.test:${plain.port}/`, {
+			proxy: http.url,
+		});
+		ws.binaryType = "arraybuffer";
+		await opened(ws);
+		expect(http.requests[0]?.target).toBe(`target.test:${plain.port}`);
+
+		const big = Buffer.alloc(70_000, 7);
+		ws.send(big);
+		const data = (await nextMessage(ws)).data as ArrayBuffer;
+		expect(data).toBeInstanceOf(ArrayBuffer);
+		expect(data.byteLength).toBe(big.length);
+		ws.close();
+		await closed(ws);
+	});
+
+	test("runs wss:// with TLS to the target inside the tunnel", async () => {
+		const ws = new WebSocket(`wss://target.test:${secure.port}/`, {
+			proxy: socks.url,
+			tls: { ca: cert },
+		});
+		await opened(ws);
+		ws.send("secret");
+		expect((await nextMessage(ws)).data).toBe("secret");
+		ws.close();
+		await closed(ws);
+	});
+
+	test("connects directly when the proxy is null", async () => {
+		const ws = new WebSocket(`ws://127.0.0.1:${plain.port}/`, { proxy: null });
+		await opened(ws);
+		ws.send("direct");
+		expect((await nextMessage(ws)).data).toBe("direct");
+		ws.close();
+		await closed(ws);
+		expect(socks.requests).toHaveLength(0);
+	});
+
+	test("negotiates permessage-deflate and keeps the compression context", async () => {
+		const ws = new WebSocket(`ws://target.test:${deflate.port}/`, {
+			proxy: socks.url,
+		});
+		await opened(ws);
+		expect(ws.extensions).toContain("permessage-deflate");
+
+		const text = "compress me ".repeat(500);
+		for (const message of [text, text, "short"]) {
+			ws.send(message);
+			expect((await nextMessage(ws)).data).toBe(message);
+		}
+		ws.close();
+		await closed(ws);
+	});
+
+	test("answers ping with pong", async () => {
+		const ws = new WebSocket(`ws://target.test:${plain.port}/`, {
+			proxy: socks.url,
+		});
+		await opened(ws);
+		const pong = new Promise<MessageEvent>((resolve) => {
+			ws.addEventListener("pong", (e) => resolve(e as MessageEvent), {
+				once: true,
+			});
+		});
+		ws.ping("are you there");
+		expect((await pong).data.toString()).toBe("are you there");
+		ws.close();
+		await closed(ws);
+	});
+
+	test("sends close codes and reports the server's", async () => {
+		const client = new WebSocket(`ws://target.test:${plain.port}/`, {
+			proxy: socks.url,
+		});
+		await opened(client);
+		const clientDone = closed(client);
+		client.close(4000, "bye");
+		expect(client.readyState).toBe(WebSocket.CLOSING);
+		expect(await clientDone).toMatchObject({
+			wasClean: true,
+			code: 4000,
+			reason: "bye",
+		});
+		expect(serverCloses).toEqual([{ code: 4000, reason: "bye" }]);
+
+		const server = new WebSocket(`ws://target.test:${plain.port}/`, {
+			proxy: socks.url,
+		});
+		await opened(server);
+		const serverDone = closed(server);
+		server.send("close:4001");
+		expect(await serverDone).toMatchObject({
+			wasClean: true,
+			code: 4001,
+			reason: "server done",
+		});
+		expect(server.readyState).toBe(WebSocket.CLOSED);
+	});
+
+	test("close() validates the code and reason", async () => {
+		const ws = new WebSocket(`ws://target.test:${plain.port}/`, {
+			proxy: socks.url,
+		});
+		await opened(ws);
+		expect(() => ws.close(1001)).toThrow("Close code must be 1000");
+		expect(() => ws.close(1000, "x".repeat(124))).toThrow("at most 123 bytes");
+		ws.close(1000);
+		await closed(ws);
+	});
+
+	test("fails with 1006 when the server refuses the upgrade", async () => {
+		const ws = new WebSocket(`ws://target.test:${plain.port}/forbidden`, {
+			proxy: socks.url,
+		});
+		const error = new Promise<ErrorEvent>((resolve) => {
+			ws.onerror = (e) => resolve(e as ErrorEvent);
+		});
+		const event = await closed(ws);
+		expect((await error).message).toBe(
+			"Unexpected server response: 403 Forbidden",
+		);
+		expect(event.code).toBe(1006);
+		expect(event.wasClean).toBe(false);
+	});
+
+	test("reassembles fragmented messages around control frames", async () => {
+		rawFrame = Buffer.concat([
+			Buffer.from([0x01, 0x03]),
+			Buffer.from("Hel"),
+			Buffer.from([0x89, 0x00]),
+			Buffer.from([0x80, 0x02]),
+			Buffer.from("lo"),
+		]);
+		const ws = new WebSocket(`ws://target.test:${rawPort}/`, {
+			proxy: socks.url,
+		});
+		const pinged = new Promise<void>((resolve) => {
+			ws.addEventListener("ping", () => resolve(), { once: true });
+		});
+		expect((await nextMessage(ws)).data).toBe("Hello");
+		await pinged;
+		const done = closed(ws);
+		ws.close();
+		await done;
+	});
+
+	test("fails the connection with 1002 on a masked server frame", async () => {
+		rawFrame = Buffer.from([0x81, 0x82, 1, 2, 3, 4, 0x69 ^ 1, 0x69 ^ 2]);
+		const ws = new WebSocket(`ws://target.test:${rawPort}/`, {
+			proxy: socks.url,
+		});
+		const error = new Promise<ErrorEvent>((resolve) => {
+			ws.onerror = (e) => resolve(e as ErrorEvent);
+		});
+		const event = await closed(ws);
+		expect((await error).message).toBe("Server frames must not be masked");
+		expect(event.code).toBe(1006);
+	});
+
+	test("rejects invalid URLs and subprotocols synchronously", () => {
+		expect(() => new WebSocket("ftp://example.com/")).toThrow(
+			"must use ws: or wss:",
+		);
+		expect(() => new WebSocket("ws://example.com/", ["chat", "chat"])).toThrow(
+			"Invalid or duplicate subprotocol",
+		);
+	});
+});